@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+
+import * as program from 'commander';
+import {createRenderServer} from './serve';
+
+function positive_number(val: string) {
+    if (!/^\d+(\.\d+)?$/.test(val) || !(+val > 0))
+        throw new Error(`invalid number: ${val}`);
+    return +val;
+}
+
+program
+    .name('markdown-it-nice-pdf serve')
+    .version(require('../package.json').version)
+    .usage('[options]')
+    .option('-p, --port <port>', 'listening port (defaults to 3000)', positive_number)
+    .option('--host <host>', 'listening host (defaults to 127.0.0.1, use 0.0.0.0 and --allow-remote in docker)')
+    .option('--allow-remote', 'listen on a non-loopback host: the rendered documents can read the files of the host, only for trusted clients')
+    .option('--browsers <count>', 'number of warm browsers (defaults to 2)', positive_number)
+    .option('--timeout <seconds>', 'render timeout (defaults to 60)', positive_number)
+    .option('--max-size <megabytes>', 'maximum request body size (defaults to 20)', positive_number)
+    .option('--no-sandbox', 'launch chromium without sandbox (ie. when running as root in docker)')
+    .parse(process.argv);
+
+let port = program.port || 3000;
+let host = program.host || "127.0.0.1";
+if (!/^(localhost|127(\.\d+){3}|::1|\[::1\])$/i.test(host) && !program.allowRemote) {
+    console.error(`--host ${host} exposes the render server to remote clients, whose documents can read the local files: add --allow-remote if the clients are trusted`);
+    process.exit(2);
+}
+let server = createRenderServer({
+    browsers: program.browsers && Math.floor(program.browsers),
+    timeout: program.timeout && program.timeout * 1000,
+    max_size: program.maxSize && program.maxSize * (1 << 20),
+    sandbox: program.sandbox,
+});
+server.listen(port, host, () => console.info(`Listening on http://${host}:${port} (POST /pdf, POST /html, GET /health)`));
+process.on('SIGINT', () => server.close(() => process.exit(0)));
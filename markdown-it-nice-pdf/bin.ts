@@ -1,41 +1,277 @@
 #!/usr/bin/env node
 
 import * as program from 'commander';
-import {readFileSync, writeFileSync } from 'fs';
+import {readFileSync} from 'fs';
 import * as path from 'path';
-import renderMarkdownPdf from './index';
+import {parse_length, parse_paper, parse_paper_margin, parse_paper_orientation, parse_tag_names, parse_permissions, localImages, watchRender, renderCombinedPdf, createRenderer, RenderPdfOptions, Diagnostic, createCliReporter, InvalidOptionError, InputNotFoundError} from 'paginate-html-to-pdf';
+import renderMarkdownPdf, {markdownRenderPdfOptions} from './index';
+import {expandGlobs, readSummary} from './inputs';
+import {findConfig, loadConfig, NicePdfConfig} from './config';
+import {parseFrontMatter} from './front-matter';
 
 function collect(val: string, memo: string[]) {
     memo.push(val);
     return memo;
 }
 
+/** remove undefined values, so they don't override configuration values */
+function defined<T extends object>(values: T) : Partial<T> {
+    let ret: Partial<T> = {};
+    for (let key of Object.keys(values) as (keyof T)[]) {
+        if (values[key] !== undefined)
+            ret[key] = values[key];
+    }
+    return ret;
+}
+
+function positive_integer(val: string) {
+    if (!/^\d+$/.test(val) || +val < 1)
+        throw new InvalidOptionError(`invalid number: ${val}`);
+    return +val;
+}
+
+/** report the error (a message is an invalid option) and exit */
+function fail(error: any) : never {
+    reporter.error(typeof error === "string" ? new InvalidOptionError(error) : error);
+    return reporter.exit();
+}
+
+function levels(val: string) {
+    return val.split(/\s*,\s*/).map(lvl => {
+        if (!/^[1-6]$/.test(lvl))
+            throw new InvalidOptionError(`invalid heading level: ${lvl}`);
+        return +lvl;
+    });
+}
+
 program
     .version(require('../package.json').version)
-    .usage('[options] <markdown-file-path>')
-    .option('<markdown-file-path>', 'markdown file to convert path')
-    .option('-o, --out [path]', 'output PDF path')
+    .usage('[options] <markdown-file-path|glob...>\n       markdown-it-nice-pdf serve [options] (HTTP render server, see serve --help)')
+    .option('<markdown-file-path|glob...>', 'markdown files to convert paths or glob patterns (ie. "docs/**/*.md"), - reads a markdown from stdin')
+    .option('-o, --out [path]', 'output PDF path (single or combined document), - writes it to stdout (default when the markdown is read from stdin)')
+    .option('--combine', 'merge the documents in the given order into one PDF (defaults to combined.pdf)')
+    .option('--summary <path>', 'merge the documents linked from a SUMMARY.md in its order into one PDF')
+    .option('--concurrency <count>', 'number of documents rendered at the same time in the shared browser (defaults to 2)', positive_integer)
     .option('-s, --style <items>', 'CSS style path (can be repeated for multiple styles)', collect, [])
+    .option('-c, --config <path>', 'configuration file path (defaults to the first .nicepdfrc.json, nice-pdf.config.js or package.json "nicePdf" key found from the directory of each markdown file)')
     .option('--raw-html', 'output the raw html (before pagination)')
+    .option('--paper <paper>', 'page paper size: A5, A4, A3, B5, B4, JIS-B5, JIS-B4, letter, legal, ledger or "<width> <height>"', parse_paper)
+    .option('--margin <margin>', 'page paper margin (ie. "2cm" or "1cm 2cm 3cm 25mm")', parse_paper_margin)
+    .option('--orientation <orientation>', 'page paper orientation: portrait or landscape', parse_paper_orientation)
+    .option('--force-cut <tag-names>', 'comma separated tag names that forcibly cut the page (ie. H1,H2,HR)', parse_tag_names)
+    .option('--max-overcut <length>', 'maximum allowed overcut (ie. 8cm)', parse_length)
+    .option('--min-height <length>', 'minimum allowed height (ie. 2cm)', parse_length)
+    .option('--watermark <text>', 'text drawn behind the content of every page (ie. DRAFT)')
+    .option('--password <password>', 'password needed to open the PDF')
+    .option('--owner-password <password>', 'password that gives all the permissions on the PDF (defaults to --password)')
+    .option('--permissions <permissions>', 'comma separated permissions of the PDF opened with --password: print, modify, copy, annotate, fill_forms, extract, assemble, print_high_quality or none (needs --owner-password)', parse_permissions)
+    .option('--outline-levels <levels>', 'comma separated heading levels that generates PDF outline entries (ie. 1,2,3)', levels)
+    .option('--outline-selector <selector>', 'CSS selector of the elements that generates PDF outline entries')
+    .option('--highlight-theme <theme>', 'code highlight theme: "print" (default), a highlight.js style name or a CSS path')
+    .option('--line-numbers', 'show line numbers in code blocks')
+    .option('-w, --watch', 'render again each time the markdown file, a style or a local image changes')
     .option('--html', 'output the paginated html instead of a pdf')
     .option('--debug', 'pause the generation just after the pagination')
-    .parse(process.argv);
+    .option('--strict', 'fail when content overflows its page and is clipped or a math expression is invalid')
+    .option('--json', 'print a JSON report ({ ok, exit_code, outputs, errors }) instead of the error messages');
 
-if (program.args.length === 0)
+try {
+    program.parse(process.argv);
+} catch (e) {
+    // invalid option value
+    let reporter = createCliReporter(process.argv.includes('--json'));
+    reporter.error(e);
+    reporter.exit();
+}
+
+if (program.args.length === 0 && !program.summary)
     program.help();
 
-let markdown_path = path.resolve(program.args[0]);
-let output_ext = program.rawHtml ? "raw.html" : (program.html ? "html" : "pdf");
-let pdf_path = path.resolve(program.out || `${markdown_path.replace(/\.\w+$/i, '')}.${output_ext}`);
+// markdown read from stdin resolves its relative resources and configuration from the current directory
+const STDIN_PATH = path.resolve('stdin.md');
+let from_stdin = program.args.includes('-');
+let to_stdout = program.out === '-' || (from_stdin && !program.out);
+if (to_stdout || program.json) {
+    // keep stdout for the output or the report
+    console.info = console.error;
+}
+const reporter = createCliReporter(!!program.json, to_stdout ? process.stderr : process.stdout);
+if (from_stdin && (program.args.length > 1 || program.summary))
+    fail(`- (stdin) must be the only markdown input`);
+if (program.watch && (from_stdin || to_stdout))
+    fail(`--watch needs a markdown file and an output file, not stdin or stdout`);
+
+let summary_titles = new Map<string, string>();
+let markdown_paths: string[] = [];
+let stdin_content: string | null = null;
+try {
+    if (from_stdin) {
+        stdin_content = readFileSync(0, 'utf8');
+        markdown_paths = [STDIN_PATH];
+    }
+    else if (program.summary) {
+        for (let { markdown_path, title } of readSummary(program.summary)) {
+            markdown_paths.push(markdown_path);
+            summary_titles.set(markdown_path, title);
+        }
+    }
+    else {
+        markdown_paths = expandGlobs(program.args);
+    }
+} catch (e) {
+    fail(e);
+}
+let combine = !!(program.combine || program.summary);
+if (markdown_paths.length === 0)
+    fail(new InputNotFoundError(program.summary || program.args.join(" "), `no markdown file matches ${program.summary || program.args.join(" ")}`));
+if (program.watch && (combine || markdown_paths.length > 1))
+    fail(`--watch expects a single markdown file`);
+if (combine && (program.html || program.rawHtml || program.debug))
+    fail(`--html, --raw-html and --debug expects a single markdown file, not --combine`);
+if (!combine && markdown_paths.length > 1 && program.out)
+    fail(`--out expects a single markdown file, use --combine to merge the documents`);
+
+// each markdown file has the configuration found from its directory, unless --config is given
+let configs = new Map<string, Partial<NicePdfConfig>>();
 try {
-    renderMarkdownPdf({
+    let cli_config = program.config ? loadConfig(program.config) : null;
+    let used = new Set<string>();
+    for (let markdown_path of markdown_paths) {
+        let config = cli_config || findConfig(markdown_path);
+        if (config && !used.has(config.config_path)) {
+            console.info(`Using configuration ${config.config_path}`);
+            used.add(config.config_path);
+        }
+        configs.set(markdown_path, config || {});
+    }
+} catch (e) {
+    fail(e);
+}
+let output_ext = program.rawHtml ? "raw.html" : (program.html ? "html" : "pdf");
+function output_path(markdown_path: string) {
+    let { out_dir } = configs.get(markdown_path)!;
+    return path.resolve(program.out || path.join(out_dir || path.dirname(markdown_path), `${path.basename(markdown_path).replace(/\.\w+$/i, '')}.${output_ext}`));
+}
+let cli_styles: string[] = program.style.map((s: string) => path.resolve(s));
+let encryption = {
+    user_password: program.password,
+    owner_password: program.ownerPassword,
+    permissions: program.permissions,
+};
+function document_options(markdown_path: string) {
+    // configuration < front matter < command line
+    let { styles = [], paginate = {}, out_dir, ...markdown_options } = configs.get(markdown_path)!;
+    let markdown = markdown_path === STDIN_PATH && stdin_content !== null ? stdin_content : readFileSync(markdown_path, 'utf8');
+    let { front_matter, content } = parseFrontMatter(markdown, markdown_path);
+    return {
         markdown_path: markdown_path,
-        markdown_content: readFileSync(markdown_path, 'utf8'),
-        styles: program.style.map((s: string) => path.resolve(s)),
+        markdown_content: content,
+        front_matter,
+        styles: [...styles, ...(front_matter.styles || []), ...cli_styles],
+        breaks: markdown_options.breaks,
+        linkify: markdown_options.linkify,
+        highlight_theme: program.highlightTheme || markdown_options.highlight_theme,
+        line_numbers: program.lineNumbers || markdown_options.line_numbers,
+        plugins: markdown_options.plugins,
+        paginate: {
+            ...paginate,
+            ...front_matter.paginate,
+            ...defined({
+                paper: program.paper,
+                paper_margin: program.margin,
+                paper_orientation: program.orientation,
+                force_cut_tag_names: program.forceCut,
+                max_overcut: program.maxOvercut,
+                min_height: program.minHeight,
+                watermark: program.watermark ? { text: program.watermark } : undefined,
+            }),
+        },
+        toc_levels: program.outlineLevels || front_matter.toc_levels || markdown_options.toc_levels,
+        toc_selector: program.outlineSelector || markdown_options.toc_selector,
+        info: front_matter.info,
+        encryption,
         raw_html: !!program.rawHtml,
         html: !!program.html,
         debug: !!program.debug,
-    }).then((buffer : Buffer) => writeFileSync(pdf_path, buffer));
-} catch(e) {
-    console.error(`unable to open markdown file: ${markdown_path}`, e);
+        strict: !!program.strict,
+        on_diagnostics: (diagnostics: Diagnostic[]) => reporter.diagnostics(diagnostics, from_stdin ? '-' : markdown_path),
+    };
+}
+
+async function render(markdown_path: string, browser?: RenderPdfOptions["browser"], out?: RenderPdfOptions["out"]) {
+    return renderMarkdownPdf({ ...document_options(markdown_path), browser, out });
+}
+
+/** the markdown file, styles and local images of the rendered html */
+function watched_files(markdown_path: string) {
+    let options = document_options(markdown_path);
+    let { body } = markdownRenderPdfOptions(options);
+    let theme = options.highlight_theme;
+    return [
+        markdown_path,
+        ...options.styles,
+        ...(theme && /\.css$/i.test(theme) ? [path.resolve(theme)] : []),
+        ...localImages(body, markdown_path),
+    ];
+}
+
+/** render the documents into one pdf, the outline entry of a document is its summary title, front matter title or file name */
+async function render_combined() {
+    let documents = markdown_paths.map(markdown_path => {
+        let options = markdownRenderPdfOptions(document_options(markdown_path));
+        let title = summary_titles.get(markdown_path) || (options.info && options.info.title) || path.basename(markdown_path).replace(/\.\w+$/i, '');
+        return { ...options, title };
+    });
+    let pdf_path = to_stdout ? null : path.resolve(program.out || path.join(configs.get(markdown_paths[0])!.out_dir || process.cwd(), "combined.pdf"));
+    await renderCombinedPdf({ documents, concurrency: program.concurrency, encryption, out: pdf_path || process.stdout });
+    reporter.output(pdf_path || '-');
+    if (pdf_path)
+        console.info(`Written ${pdf_path}`);
+}
+
+/** render each document to its own pdf with one shared browser, --concurrency documents at the same time */
+async function render_batch() {
+    const renderer = createRenderer({ concurrency: program.concurrency || 2 });
+    let failures = 0;
+    try {
+        await Promise.all(markdown_paths.map(async markdown_path => {
+            try {
+                let out_path = output_path(markdown_path);
+                await renderMarkdownPdf({ ...document_options(markdown_path), renderer, out: out_path });
+                reporter.output(out_path);
+                console.info(`Written ${out_path}`);
+            } catch (e) {
+                failures++;
+                reporter.error(e, markdown_path);
+            }
+        }));
+    }
+    finally {
+        await renderer.close();
+    }
+    if (failures)
+        console.error(`${failures} of ${markdown_paths.length} documents failed`);
+    reporter.exit();
+}
+
+if (program.watch) {
+    let markdown_path = markdown_paths[0];
+    watchRender({
+        out_path: output_path(markdown_path),
+        render: browser => render(markdown_path, browser),
+        files: () => watched_files(markdown_path),
+    });
+}
+else if (combine) {
+    render_combined().then(() => reporter.exit(), fail);
+}
+else if (markdown_paths.length > 1) {
+    render_batch();
+}
+else {
+    let markdown_path = markdown_paths[0];
+    let out_path = to_stdout ? null : output_path(markdown_path);
+    render(markdown_path, undefined, out_path || process.stdout)
+        .then(() => reporter.output(out_path || '-'), e => reporter.error(e, from_stdin ? '-' : markdown_path))
+        .then(() => reporter.exit());
 }
@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+
+// markdown-it-nice-pdf serve [options]: HTTP render server
+// markdown-it-nice-pdf [options] <markdown-file-path>: render a markdown file
+if (process.argv[2] === "serve") {
+    process.argv.splice(2, 1);
+    require('./bin-serve');
+}
+else {
+    require('./bin');
+}
@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {parse_length, parse_paper, parse_paper_margin, parse_paper_orientation, parse_tag_names, validateWatermark, RenderPaginateOptions, InvalidOptionError, InputNotFoundError} from 'paginate-html-to-pdf';
+import {Plugin} from './index';
+
+/** Project configuration, paths are relative to the configuration file directory */
+export interface NicePdfConfig {
+    /** path of the configuration file */
+    config_path: string,
+    /** CSS style paths */
+    styles?: string[],
+    breaks?: boolean,
+    linkify?: boolean,
+    toc_levels?: (1 | 2 | 3 | 4 | 5 | 6)[],
+    toc_selector?: string,
+    /** highlight.js theme: "print" (bundled), a highlight.js style name or a CSS path */
+    highlight_theme?: string,
+    line_numbers?: boolean,
+    /** extra markdown-it plugins: module name, plugin function or [plugin, options] */
+    plugins?: Plugin[],
+    paginate?: RenderPaginateOptions,
+    /** directory where output files are written, defaults to the markdown file directory */
+    out_dir?: string,
+}
+
+const CONFIG_FILES = [".nicepdfrc.json", "nice-pdf.config.js", "package.json"];
+const PACKAGE_JSON_KEY = "nicePdf";
+
+/** Search for a configuration file from the directory of the markdown file up to the root directory */
+export function findConfig(markdown_path: string) : NicePdfConfig | null {
+    let dir = path.dirname(path.resolve(markdown_path));
+    while (true) {
+        for (let name of CONFIG_FILES) {
+            let config_path = path.join(dir, name);
+            if (!fs.existsSync(config_path))
+                continue;
+            if (name === "package.json") {
+                let pkg: any;
+                try {
+                    pkg = JSON.parse(fs.readFileSync(config_path, 'utf8'));
+                } catch (e) {
+                    throw new InvalidOptionError(`unable to load configuration file ${config_path}: ${e.message}`);
+                }
+                if (pkg && pkg[PACKAGE_JSON_KEY] !== undefined)
+                    return validateConfig(pkg[PACKAGE_JSON_KEY], `${config_path}#${PACKAGE_JSON_KEY}`, dir);
+            }
+            else {
+                return loadConfig(config_path);
+            }
+        }
+        let parent = path.dirname(dir);
+        if (parent === dir)
+            return null;
+        dir = parent;
+    }
+}
+
+export function loadConfig(config_path: string) : NicePdfConfig {
+    config_path = path.resolve(config_path);
+    let dir = path.dirname(config_path);
+    let raw: any;
+    try {
+        if (/\.js$/i.test(config_path))
+            raw = require(config_path);
+        else
+            raw = JSON.parse(fs.readFileSync(config_path, 'utf8'));
+    } catch (e) {
+        if (e.code === "ENOENT" || e.code === "MODULE_NOT_FOUND" && !fs.existsSync(config_path))
+            throw new InputNotFoundError(config_path, `configuration file not found: ${config_path}`);
+        throw new InvalidOptionError(`unable to load configuration file ${config_path}: ${e.message}`);
+    }
+    if (path.basename(config_path) === "package.json")
+        return validateConfig(raw && raw[PACKAGE_JSON_KEY], `${config_path}#${PACKAGE_JSON_KEY}`, dir);
+    return validateConfig(raw, config_path, dir);
+}
+
+function validateConfig(raw: any, config_path: string, dir: string) : NicePdfConfig {
+    function fail(key: string, expected: string) : never {
+        throw new InvalidOptionError(`${config_path}: invalid "${key}", expected ${expected}`);
+    }
+    function check<T>(key: string, value: any, parse: (value: any) => T) : T {
+        try {
+            return parse(value);
+        } catch (e) {
+            throw new InvalidOptionError(`${config_path}: invalid "${key}": ${e.message}`);
+        }
+    }
+
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw))
+        fail("configuration", "an object");
+
+    let config: NicePdfConfig = { config_path };
+    for (let [key, value] of Object.entries(raw)) {
+        switch (key) {
+            case "styles":
+                if (!Array.isArray(value) || !value.every(v => typeof v === "string"))
+                    fail(key, "an array of CSS style paths");
+                config.styles = value.map((style: string) => path.resolve(dir, style));
+                break;
+            case "breaks":
+            case "linkify":
+            case "line_numbers":
+                if (typeof value !== "boolean")
+                    fail(key, "a boolean");
+                config[key] = value;
+                break;
+            case "toc_levels":
+                if (!Array.isArray(value) || !value.every(v => [1, 2, 3, 4, 5, 6].indexOf(v) !== -1))
+                    fail(key, "an array of heading levels (1 to 6)");
+                config.toc_levels = value;
+                break;
+            case "toc_selector":
+                if (typeof value !== "string")
+                    fail(key, "a CSS selector");
+                config.toc_selector = value;
+                break;
+            case "highlight_theme":
+                if (typeof value !== "string")
+                    fail(key, `"print", a highlight.js style name or a CSS path`);
+                config.highlight_theme = /\.css$/i.test(value) ? path.resolve(dir, value) : value;
+                break;
+            case "plugins":
+                if (!Array.isArray(value))
+                    fail(key, "an array of markdown-it plugins");
+                config.plugins = value.map((plugin: any) => check(key, plugin, plugin => resolvePlugin(plugin, dir)));
+                break;
+            case "paginate":
+                config.paginate = check(key, value, validatePaginateOptions);
+                break;
+            case "out_dir":
+                if (typeof value !== "string")
+                    fail(key, "a directory path");
+                config.out_dir = path.resolve(dir, value);
+                break;
+            default:
+                throw new InvalidOptionError(`${config_path}: unknown key "${key}", expected one of styles, breaks, linkify, toc_levels, toc_selector, highlight_theme, line_numbers, plugins, paginate, out_dir`);
+        }
+    }
+    return config;
+}
+
+function resolvePlugin(plugin: any, dir: string) : Plugin {
+    let options: any = undefined;
+    if (Array.isArray(plugin)) {
+        if (plugin.length !== 2)
+            throw new Error(`expected [plugin, options]`);
+        [plugin, options] = plugin;
+    }
+    if (typeof plugin === "string")
+        plugin = require(require.resolve(plugin, { paths: [dir] }));
+    if (plugin && typeof plugin.default === "function")
+        plugin = plugin.default;
+    if (typeof plugin !== "function")
+        throw new Error(`expected a module name or a markdown-it plugin function`);
+    return options === undefined ? plugin : [plugin, options];
+}
+
+export function validatePaginateOptions(raw: any) : RenderPaginateOptions {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw))
+        throw new InvalidOptionError(`expected an object`);
+
+    let paginate: RenderPaginateOptions = {};
+    for (let [key, value] of Object.entries(raw)) {
+        switch (key) {
+            case "paper":
+                if (typeof value === "object" && value !== null && !Array.isArray(value))
+                    paginate.paper = parse_paper(`${(value as any).width} ${(value as any).height}`);
+                else if (typeof value === "string")
+                    paginate.paper = parse_paper(value);
+                else
+                    throw new InvalidOptionError(`invalid "paper", expected a paper name or { width, height }`);
+                break;
+            case "paper_margin":
+                if (typeof value === "object" && value !== null && !Array.isArray(value))
+                    paginate.paper_margin = parse_paper_margin(["top", "right", "bottom", "left"].map(side => (value as any)[side]).join(" "));
+                else if (typeof value === "string")
+                    paginate.paper_margin = parse_paper_margin(value);
+                else
+                    throw new InvalidOptionError(`invalid "paper_margin", expected a margin or { top, right, bottom, left }`);
+                break;
+            case "paper_orientation":
+                paginate.paper_orientation = parse_paper_orientation(value as string);
+                break;
+            case "force_cut_tag_names":
+            case "odd_page_tag_names":
+                if (typeof value === "string")
+                    paginate[key] = parse_tag_names(value);
+                else if (Array.isArray(value) && value.every(v => typeof v === "string"))
+                    paginate[key] = parse_tag_names(value.join(","));
+                else
+                    throw new InvalidOptionError(`invalid "${key}", expected an array of tag names`);
+                break;
+            case "mirror_margins":
+                if (typeof value !== "boolean")
+                    throw new InvalidOptionError(`invalid "${key}", expected a boolean`);
+                paginate[key] = value;
+                break;
+            case "max_overcut":
+            case "min_height":
+                if (typeof value !== "string")
+                    throw new InvalidOptionError(`invalid "${key}", expected a length`);
+                paginate[key] = parse_length(value);
+                break;
+            case "min_lines":
+            case "widows":
+            case "orphans":
+                if (typeof value !== "number" || !(value >= 1))
+                    throw new InvalidOptionError(`invalid "${key}", expected a positive number of lines`);
+                paginate[key] = value;
+                break;
+            case "min_rows":
+                if (typeof value !== "number" || !(value >= 1))
+                    throw new InvalidOptionError(`invalid "${key}", expected a positive number of rows`);
+                paginate[key] = value;
+                break;
+            case "watermark":
+                paginate.watermark = Array.isArray(value) ? value.map(validateWatermark) : validateWatermark(value);
+                break;
+            case "footnotes":
+                if (value !== "end" && value !== "page")
+                    throw new InvalidOptionError(`invalid "footnotes", expected "end" or "page"`);
+                paginate.footnotes = value;
+                break;
+            case "toc_selector":
+            case "continued_marker":
+            case "continued_caption":
+                if (typeof value !== "string")
+                    throw new InvalidOptionError(`invalid "${key}", expected a string`);
+                paginate[key] = value;
+                break;
+            default:
+                throw new InvalidOptionError(`unknown key "${key}", expected one of paper, paper_margin, paper_orientation, force_cut_tag_names, odd_page_tag_names, mirror_margins, max_overcut, min_height, min_lines, widows, orphans, min_rows, continued_marker, continued_caption, footnotes, watermark, toc_selector`);
+        }
+    }
+    return paginate;
+}
@@ -0,0 +1,98 @@
+import * as path from 'path';
+import {parse_paper, parse_paper_margin, parse_paper_orientation, PdfInfo, RenderPaginateOptions, InvalidOptionError} from 'paginate-html-to-pdf';
+
+/** Per document metadata and layout, paths are relative to the markdown file directory */
+export interface FrontMatter {
+    info: PdfInfo,
+    styles?: string[],
+    toc_levels?: (1 | 2 | 3 | 4 | 5 | 6)[],
+    paginate: RenderPaginateOptions,
+}
+
+const FRONT_MATTER_RX = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Extract the leading YAML front matter block of a markdown document.
+ *
+ * Unknown keys are ignored, so the front matter can carry any other metadata.
+ */
+export function parseFrontMatter(markdown_content: string, markdown_path: string) : { front_matter: FrontMatter, content: string } {
+    let front_matter: FrontMatter = { info: {}, paginate: {} };
+    let m = markdown_content.match(FRONT_MATTER_RX);
+    if (!m)
+        return { front_matter, content: markdown_content };
+
+    const yaml = require('js-yaml');
+    let raw: any;
+    try {
+        raw = yaml.safeLoad(m[1]);
+    } catch (e) {
+        throw new InvalidOptionError(`${markdown_path}: invalid front matter: ${e.message}`);
+    }
+    // keep line numbers of the markdown content
+    let content = m[0].replace(/[^\n]/g, "") + markdown_content.substring(m[0].length);
+    if (raw === null || raw === undefined)
+        return { front_matter, content };
+
+    function check<T>(key: string, parse: (value: any) => T) : T {
+        try {
+            return parse(raw[key]);
+        } catch (e) {
+            throw new InvalidOptionError(`${markdown_path}: invalid front matter "${key}": ${e.message}`);
+        }
+    }
+    function string(value: any) : string {
+        if (typeof value !== "string" && typeof value !== "number")
+            throw new Error(`expected a string`);
+        return `${value}`;
+    }
+    function strings(value: any) : string[] {
+        if (Array.isArray(value))
+            return value.map(string);
+        return string(value).split(/\s*,\s*/).filter(v => v);
+    }
+
+    if (typeof raw !== "object" || Array.isArray(raw))
+        throw new InvalidOptionError(`${markdown_path}: invalid front matter, expected key: value pairs`);
+
+    let dir = path.dirname(markdown_path);
+    let { info, paginate } = front_matter;
+    for (let key of Object.keys(raw)) {
+        switch (key) {
+            case "title":
+            case "subject":
+                info[key] = check(key, string);
+                break;
+            case "author":
+                info.author = check(key, strings).join(", ");
+                break;
+            case "keywords":
+                info.keywords = check(key, strings);
+                break;
+            case "date":
+                // used by the {{ date }} header and footer placeholder
+                paginate.date = check(key, value => value instanceof Date ? value.toISOString().substring(0, 10) : string(value));
+                break;
+            case "styles":
+                front_matter.styles = check(key, strings).map(style => path.resolve(dir, style));
+                break;
+            case "toc_levels":
+                front_matter.toc_levels = check(key, value => strings(value).map(lvl => {
+                    if (!/^[1-6]$/.test(lvl))
+                        throw new Error(`invalid heading level: ${lvl}`);
+                    return +lvl as 1 | 2 | 3 | 4 | 5 | 6;
+                }));
+                break;
+            case "paper":
+                paginate.paper = check(key, value => parse_paper(string(value)));
+                break;
+            case "margin":
+                paginate.paper_margin = check(key, value => parse_paper_margin(string(value)));
+                break;
+            case "orientation":
+                paginate.paper_orientation = check(key, value => parse_paper_orientation(string(value)));
+                break;
+        }
+    }
+    return { front_matter, content };
+}
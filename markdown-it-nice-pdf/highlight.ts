@@ -0,0 +1,64 @@
+import * as MarkdownIt from 'markdown-it';
+import * as fs from 'fs';
+import * as path from 'path';
+import {InvalidOptionError} from 'paginate-html-to-pdf';
+
+const RX_TAG = /<span[^>]*>|<\/span>/g;
+
+/**
+ * Split highlighted html into lines, spans that cross a line are closed
+ * at the end of the line and reopened at the start of the next one.
+ * This way each line is self contained and can be moved to another page.
+ */
+function split_lines(html: string) : string[] {
+    let open: string[] = [];
+    return html.split("\n").map(line => {
+        let prefix = open.join("");
+        for (let tag of line.match(RX_TAG) || []) {
+            if (tag === "</span>")
+                open.pop();
+            else
+                open.push(tag);
+        }
+        return prefix + line + "</span>".repeat(open.length);
+    });
+}
+
+/**
+ * Highlight fenced code blocks with highlight.js.
+ *
+ * Each line is wrapped in a <span class="line" data-line="N"> element,
+ * line numbers are rendered from the data-line attribute so they survive page cuts.
+ */
+export function mdhighlight(md: MarkdownIt, options: { line_numbers?: boolean } = {}) {
+    const hljs = require('highlight.js');
+    md.set({
+        highlight: (code: string, lang: string) => {
+            let language = lang && hljs.getLanguage(lang) ? lang : null;
+            let html = language ? hljs.highlight(language, code, true).value : md.utils.escapeHtml(code);
+            let lines = split_lines(html.replace(/\n$/, ""));
+            let pre_class = `hljs${options.line_numbers ? " line-numbers" : ""}`;
+            let code_class = lang ? ` class="language-${md.utils.escapeHtml(lang)}"` : "";
+            return `<pre class="${pre_class}"><code${code_class}>${lines.map((line, i) => `<span class="line" data-line="${i + 1}">${line}</span>`).join("\n")}
+</code></pre>
+`;
+        },
+    });
+}
+
+/**
+ * Resolve the highlight theme stylesheet path:
+ *  - "print": bundled print friendly theme
+ *  - a highlight.js style name (ie. "github")
+ *  - a CSS path
+ */
+export function highlight_theme_path(theme: string) : string {
+    if (theme === "print")
+        return path.join(__dirname, "../highlight.css");
+    let style = path.join(__dirname, `../node_modules/highlight.js/styles/${theme}.css`);
+    if (/^[\w.-]+$/.test(theme) && fs.existsSync(style))
+        return style;
+    if (fs.existsSync(theme))
+        return path.resolve(theme);
+    throw new InvalidOptionError(`invalid highlight theme: ${theme}, expected "print", a highlight.js style name or a CSS path`);
+}
@@ -1,7 +1,9 @@
 import * as MarkdownIt from 'markdown-it';
 import * as path from 'path';
-import renderPdf from 'paginate-html-to-pdf';
+import renderPdf, {PdfInfo, PdfEncryption, RenderPaginateOptions, RenderPdfOptions, Renderer, writeOutput} from 'paginate-html-to-pdf';
 import {mdkatex} from './katex';
+import {mdhighlight, highlight_theme_path} from './highlight';
+import {parseFrontMatter, FrontMatter} from './front-matter';
 
 function option<T>(value: T | undefined, defaultValue: T) : T {
     if (value === undefined)
@@ -9,18 +11,64 @@ function option<T>(value: T | undefined, defaultValue: T) : T {
     return value;
 }
 
-export default async function renderMarkdownPdf(options: {
+export type Plugin = ((md: MarkdownIt) => void) | [(md: MarkdownIt, options: any) => void, any];
+
+export interface MarkdownPdfOptions {
     markdown_content: string,
     markdown_path: string,
+    /** front matter already parsed by the caller, markdown_content is then the content after it, defaults: parsed from markdown_content */
+    front_matter?: FrontMatter,
     styles?: string[],
     breaks?: boolean,
     linkify?: boolean,
+    /** highlight.js theme: "print" (bundled), a highlight.js style name or a CSS path, defaults: "print" */
+    highlight_theme?: string,
+    /** show line numbers in fenced code blocks, defaults: false */
+    line_numbers?: boolean,
+    /** extra markdown-it plugins: plugin or [plugin, options] */
+    plugins?: Plugin[],
+    /** heading levels of the [[toc]] and PDF outline entries, defaults: [2, 3, 4] */
     toc_levels?: (1 | 2 | 3 | 4 | 5 | 6)[],
+    /** CSS selector of the elements that generates PDF outline entries, overrides toc_levels */
+    toc_selector?: string,
+    /** paginate options (paper, paper_margin, paper_orientation, force_cut_tag_names, ...) */
+    paginate?: RenderPaginateOptions,
+    /** PDF document information (title, author, ...) */
+    info?: PdfInfo,
+    /** PDF encryption (user_password, owner_password, permissions) */
+    encryption?: PdfEncryption,
 
     raw_html?: boolean,
     html?: boolean,
     debug?: boolean,
-}) : Promise<Buffer> {
+    /** render with this browser instead of launching a new one, the browser is left open */
+    browser?: RenderPdfOptions["browser"],
+    /** render with this renderer (shared browser, bounded concurrency) instead of launching a browser */
+    renderer?: Renderer,
+    /** write the output to this file path or stream instead of returning it, the returned buffer is then empty */
+    out?: RenderPdfOptions["out"],
+    /** called with the pagination diagnostics of the document */
+    on_diagnostics?: RenderPdfOptions["on_diagnostics"],
+    /** fail with an OverflowError instead of printing clipped content and with a KatexError instead of keeping invalid math as raw LaTeX */
+    strict?: boolean,
+}
+
+export default async function renderMarkdownPdf(options: MarkdownPdfOptions) : Promise<Buffer> {
+    let render_options = markdownRenderPdfOptions(options);
+    if (options.raw_html)
+        return writeOutput(Buffer.from(render_options.body, "utf8"), options.out);
+    if (options.renderer)
+        return options.renderer.render(render_options);
+    return renderPdf(render_options);
+}
+
+/** Render the markdown to html and resolve the renderPdf options (styles, paginate, outline, ...) */
+export function markdownRenderPdfOptions(options: MarkdownPdfOptions) : RenderPdfOptions {
+    // front matter values are defaults for this document
+    let { front_matter, content } = options.front_matter
+        ? { front_matter: options.front_matter, content: options.markdown_content }
+        : parseFrontMatter(options.markdown_content, options.markdown_path);
+    let styles = options.styles || [];
     let md = new MarkdownIt({
         html: true,
         breaks: option(options.breaks, false),
@@ -31,21 +79,41 @@ export default async function renderMarkdownPdf(options: {
     md.use(require("markdown-it-sub"));
     md.use(require("markdown-it-anchor"));
     md.use(require("markdown-it-task-lists"));
-    md.use(require("markdown-it-table-of-contents"), { includeLevel: option(options.toc_levels, [2, 3, 4]) });
-    md.use(mdkatex);
+    let toc_levels = option<NonNullable<typeof options.toc_levels>>(options.toc_levels, front_matter.toc_levels || [2, 3, 4]);
+    md.use(require("markdown-it-table-of-contents"), { includeLevel: toc_levels });
+    md.use(mdkatex, { throwOnError: true, fail_on_error: !!options.strict });
+    md.use(mdhighlight, { line_numbers: option(options.line_numbers, false) });
+    for (let plugin of options.plugins || []) {
+        if (Array.isArray(plugin))
+            md.use(plugin[0], plugin[1]);
+        else
+            md.use(plugin);
+    }
 
     console.info("Markdown to html");
-    let body = md.render(options.markdown_content);
-    if (options.raw_html)
-        return Buffer.from(body, "utf8");
-    return renderPdf({
+    let body = md.render(content);
+    return {
         body,
         base_path: options.markdown_path,
         styles: [
             path.join(__dirname, "../node_modules/katex/dist/katex.css"),
-            ...(options.styles || [])
+            highlight_theme_path(option(options.highlight_theme, "print")),
+            // the front matter styles come before the option styles, unless the caller already placed them (ie. after its configuration styles)
+            ...(front_matter.styles || []).filter(style => styles.indexOf(style) === -1),
+            ...styles
         ],
+        paginate: { ...front_matter.paginate, ...options.paginate },
+        info: { ...front_matter.info, ...options.info },
+        encryption: options.encryption,
+        toc: {
+            levels: toc_levels,
+            selector: options.toc_selector,
+        },
         html: options.html,
         debug: options.debug,
-    });
+        browser: options.browser,
+        out: options.out,
+        on_diagnostics: options.on_diagnostics,
+        strict: options.strict,
+    };
 }
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const RX_GLOB = /[*?]/;
+
+/** "**" matches any number of directories, "*" and "?" any characters of a file name */
+function glob_regexp(glob: string) : RegExp {
+    let rx = "";
+    for (let i = 0; i < glob.length; i++) {
+        let c = glob[i];
+        if (c === "*" && glob[i + 1] === "*") {
+            i++;
+            if (glob[i + 1] === "/") {
+                i++;
+                rx += "(?:.*/)?";
+            }
+            else {
+                rx += ".*";
+            }
+        }
+        else if (c === "*")
+            rx += "[^/]*";
+        else if (c === "?")
+            rx += "[^/]";
+        else
+            rx += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+    return new RegExp(`^${rx}$`);
+}
+
+/**
+ * Relative paths (with "/" separators) of the files in the directory, hidden directories and node_modules are skipped.
+ * A directory reached again through a symlink (ie. a symlink cycle) is walked once, broken symlinks are skipped.
+ */
+function walk(dir: string, prefix: string, files: string[], visited = new Set<string>()) {
+    let real_dir = fs.realpathSync(dir);
+    if (visited.has(real_dir))
+        return files;
+    visited.add(real_dir);
+    for (let name of fs.readdirSync(dir).sort()) {
+        let file_path = path.join(dir, name);
+        if (!fs.existsSync(file_path))
+            continue;
+        let stat = fs.statSync(file_path);
+        if (stat.isDirectory()) {
+            if (!name.startsWith(".") && name !== "node_modules")
+                walk(file_path, `${prefix}${name}/`, files, visited);
+        }
+        else {
+            files.push(`${prefix}${name}`);
+        }
+    }
+    return files;
+}
+
+/** Expand the glob patterns to absolute file paths (sorted by pattern), paths without a glob are kept as is */
+export function expandGlobs(patterns: string[]) : string[] {
+    let paths = new Set<string>();
+    for (let pattern of patterns) {
+        pattern = pattern.replace(/\\/g, "/");
+        if (!RX_GLOB.test(pattern)) {
+            paths.add(path.resolve(pattern));
+            continue;
+        }
+        let segments = pattern.split("/");
+        let glob_idx = segments.findIndex(segment => RX_GLOB.test(segment));
+        let base = path.resolve(segments.slice(0, glob_idx).join("/") || ".");
+        let rx = glob_regexp(segments.slice(glob_idx).join("/"));
+        if (fs.existsSync(base)) {
+            for (let file of walk(base, "", [])) {
+                if (rx.test(file))
+                    paths.add(path.join(base, file));
+            }
+        }
+    }
+    return [...paths];
+}
+
+/** Markdown files linked from a SUMMARY.md (GitBook style table of contents) in order, with their link title */
+export function readSummary(summary_path: string) : { markdown_path: string, title: string }[] {
+    let dir = path.dirname(path.resolve(summary_path));
+    let content = fs.readFileSync(summary_path, 'utf8');
+    let rx = /\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+    let seen = new Set<string>();
+    let entries: { markdown_path: string, title: string }[] = [];
+    let m: RegExpExecArray | null;
+    while (m = rx.exec(content)) {
+        let link = m[2].replace(/#.*$/, "");
+        if (!link || /^[a-z][a-z0-9+.-]*:/i.test(link) || !/\.(md|markdown)$/i.test(link))
+            continue;
+        let markdown_path = path.resolve(dir, decodeURI(link));
+        if (seen.has(markdown_path))
+            continue;
+        seen.add(markdown_path);
+        entries.push({ markdown_path, title: m[1].trim() });
+    }
+    return entries;
+}
@@ -25,6 +25,7 @@
 
 import * as MarkdownIt from 'markdown-it';
 import * as Katex from 'katex';
+import {KatexError} from 'paginate-html-to-pdf';
 
 type State = Parameters<MarkdownIt.Rule>[0];
 type Token = Parameters<MarkdownIt.TokenRender>[0][0];
@@ -170,12 +171,22 @@ function math_block(state: State, start: number, end: number, silent?: boolean)
 
 interface KatexOptions extends Katex.KatexOptions {
     throwOnError?: boolean;
+    /** throw a KatexError on an invalid expression instead of keeping its raw LaTeX with a warning */
+    fail_on_error?: boolean;
 }
 
-export function mdkatex(md: MarkdownIt, options: KatexOptions = {}) {
+export function mdkatex(md: MarkdownIt, { fail_on_error = false, ...options }: KatexOptions = {}) {
     const katex: typeof Katex = require('katex');
     // Default options
 
+    let invalidLatex = function (latex: string, error: any) {
+        let katex_error = new KatexError(latex, error);
+        if (fail_on_error)
+            throw katex_error;
+        console.warn(`${katex_error.message} (kept as raw LaTeX)`);
+        return latex;
+    };
+
     // set KaTeX as the renderer for markdown-it-simplemath
     let katexInline = function (latex: string) {
         options.displayMode = false;
@@ -183,8 +194,7 @@ export function mdkatex(md: MarkdownIt, options: KatexOptions = {}) {
             return katex.renderToString(latex, options);
         }
         catch (error) {
-            if (options.throwOnError) { console.log(error); }
-            return latex;
+            return invalidLatex(latex, error);
         }
     };
 
@@ -208,8 +218,7 @@ export function mdkatex(md: MarkdownIt, options: KatexOptions = {}) {
             return `<p>${res}</p>`;
         }
         catch (error) {
-            if (options.throwOnError) { console.log(error); }
-            return latex;
+            return invalidLatex(latex, error);
         }
     }
     let blockRenderer = function (tokens: Token[], idx: number) {
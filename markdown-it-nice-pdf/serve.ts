@@ -0,0 +1,368 @@
+import * as http from 'http';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import renderPdf, {BrowserPool, PdfInfo, RenderPaginateOptions, RenderError, BrowserLaunchError} from 'paginate-html-to-pdf';
+import renderMarkdownPdf from './index';
+import {validatePaginateOptions} from './config';
+
+export interface RenderServerOptions {
+    /** number of warm browsers, defaults: 2 */
+    browsers?: number,
+    /** render timeout in ms, defaults: 60000 */
+    timeout?: number,
+    /** maximum request body size in bytes, defaults: 20MB */
+    max_size?: number,
+    /** chromium sandbox, disable it to run as root (ie. in docker), defaults: true */
+    sandbox?: boolean,
+}
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+/** Validated render request, styles are CSS contents and assets are written next to the document */
+interface RenderRequest {
+    html?: string,
+    markdown?: string,
+    styles: string[],
+    assets: { path: string, data: Buffer }[],
+    paginate?: RenderPaginateOptions,
+    info?: PdfInfo,
+    toc_levels?: (1 | 2 | 3 | 4 | 5 | 6)[],
+    toc_selector?: string,
+    highlight_theme?: string,
+    line_numbers?: boolean,
+    breaks?: boolean,
+    linkify?: boolean,
+}
+
+const MB = 1 << 20;
+
+/** a too large body is drained (not buffered), so the 413 response is read by the client */
+function read_body(req: http.IncomingMessage, max_size: number) : Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        let too_large = () => {
+            req.removeAllListeners('data');
+            req.resume();
+            reject(new HttpError(413, `request body is larger than ${max_size} bytes`));
+        };
+        let length = +(req.headers['content-length'] || 0);
+        if (length > max_size)
+            return too_large();
+        let chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > max_size) {
+                chunks = [];
+                too_large();
+            }
+            else {
+                chunks.push(chunk);
+            }
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+}
+
+export type Part = { name: string, filename?: string, data: Buffer };
+/** Named parts of a multipart/form-data body, a malformed body is a 400 error */
+export function parse_multipart(body: Buffer, content_type: string) : Part[] {
+    let m = content_type.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+    if (!m)
+        throw new HttpError(400, `missing multipart boundary`);
+    let boundary = `--${m[1] || m[2]}`;
+    let parts: Part[] = [];
+    let pos = body.indexOf(boundary);
+    while (pos !== -1) {
+        let start = pos + boundary.length;
+        if (body.toString("latin1", start, start + 2) === "--")
+            return parts;
+        let headers_end = body.indexOf("\r\n\r\n", start);
+        let next = headers_end === -1 ? -1 : body.indexOf(`\r\n${boundary}`, headers_end);
+        if (next === -1)
+            break;
+        let headers = body.toString("utf8", start, headers_end);
+        let name = headers.match(/content-disposition:[^\r\n]*?\bname="([^"]*)"/i);
+        let filename = headers.match(/content-disposition:[^\r\n]*?\bfilename="([^"]*)"/i);
+        if (name)
+            parts.push({ name: name[1], filename: filename ? filename[1] : undefined, data: body.slice(headers_end + 4, next) });
+        pos = next + 2;
+    }
+    throw new HttpError(400, `invalid multipart body`);
+}
+
+/** Asset path relative to the document directory, it must stay inside it */
+function asset_path(asset: string) : string {
+    let normalized = path.normalize(asset.replace(/\\/g, "/")).replace(/^\/+/, "");
+    if (!normalized || normalized === "." || normalized.startsWith("..") || path.isAbsolute(normalized))
+        throw new HttpError(400, `invalid asset path: ${asset}`);
+    return normalized;
+}
+
+function parse_render_request(raw: any, styles: string[], assets: RenderRequest["assets"]) : RenderRequest {
+    function check<T>(key: string, parse: (value: any) => T) : T {
+        try {
+            return parse(raw[key]);
+        } catch (e) {
+            throw new HttpError(400, `invalid "${key}": ${e.message}`);
+        }
+    }
+    function string(value: any) : string {
+        if (typeof value !== "string")
+            throw new Error(`expected a string`);
+        return value;
+    }
+    function boolean(value: any) : boolean {
+        if (typeof value !== "boolean")
+            throw new Error(`expected a boolean`);
+        return value;
+    }
+
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw))
+        throw new HttpError(400, `invalid request, expected an object`);
+    let request: RenderRequest = { styles, assets };
+    for (let key of Object.keys(raw)) {
+        switch (key) {
+            case "html":
+            case "markdown":
+            case "toc_selector":
+                request[key] = check(key, string);
+                break;
+            case "line_numbers":
+            case "breaks":
+            case "linkify":
+                request[key] = check(key, boolean);
+                break;
+            case "highlight_theme":
+                // highlight.js style names only, CSS paths are not allowed
+                request.highlight_theme = check(key, value => {
+                    if (typeof value !== "string" || !/^[\w.-]+$/.test(value))
+                        throw new Error(`expected "print" or a highlight.js style name`);
+                    return value;
+                });
+                break;
+            case "styles":
+                request.styles.push(...check(key, value => {
+                    if (!Array.isArray(value) || !value.every(v => typeof v === "string"))
+                        throw new Error(`expected an array of CSS contents`);
+                    return value as string[];
+                }));
+                break;
+            case "assets":
+                request.assets.push(...check(key, value => {
+                    if (typeof value !== "object" || value === null || Array.isArray(value))
+                        throw new Error(`expected an object of base64 contents by path`);
+                    return Object.keys(value).map(asset => ({ path: asset, data: Buffer.from(string(value[asset]), "base64") }));
+                }));
+                break;
+            case "toc_levels":
+                request.toc_levels = check(key, value => {
+                    if (!Array.isArray(value) || !value.every(v => [1, 2, 3, 4, 5, 6].indexOf(v) !== -1))
+                        throw new Error(`expected an array of heading levels (1 to 6)`);
+                    return value;
+                });
+                break;
+            case "paginate":
+                request.paginate = check(key, validatePaginateOptions);
+                break;
+            case "info":
+                request.info = check(key, value => {
+                    if (typeof value !== "object" || value === null || Array.isArray(value))
+                        throw new Error(`expected an object`);
+                    let info: PdfInfo = {};
+                    for (let info_key of Object.keys(value)) {
+                        if (info_key === "keywords") {
+                            if (!Array.isArray(value.keywords))
+                                throw new Error(`invalid "keywords", expected an array of strings`);
+                            info.keywords = value.keywords.map(string);
+                        }
+                        else if (info_key === "title" || info_key === "author" || info_key === "subject" || info_key === "creator")
+                            info[info_key] = string(value[info_key]);
+                        else
+                            throw new Error(`unknown key "${info_key}", expected one of title, author, subject, keywords, creator`);
+                    }
+                    return info;
+                });
+                break;
+            default:
+                throw new HttpError(400, `unknown key "${key}", expected one of html, markdown, styles, assets, paginate, info, toc_levels, toc_selector, highlight_theme, line_numbers, breaks, linkify`);
+        }
+    }
+    if ((request.html === undefined) === (request.markdown === undefined))
+        throw new HttpError(400, `expected either "html" or "markdown"`);
+    return request;
+}
+
+/**
+ * JSON: { html | markdown, styles: [css], assets: { path: base64 }, ...options }
+ * multipart: html or markdown field (text or file), style fields (text or file),
+ * options field (JSON options), any other file field is an asset saved as its filename.
+ */
+async function read_render_request(req: http.IncomingMessage, max_size: number) : Promise<RenderRequest> {
+    let body = await read_body(req, max_size);
+    let content_type = req.headers['content-type'] || "";
+    if (/^multipart\/form-data/i.test(content_type)) {
+        let raw: any = {};
+        let styles: string[] = [];
+        let assets: RenderRequest["assets"] = [];
+        for (let { name, filename, data } of parse_multipart(body, content_type)) {
+            if (name === "html" || name === "markdown")
+                raw[name] = data.toString("utf8");
+            else if (name === "style")
+                styles.push(data.toString("utf8"));
+            else if (name === "options") {
+                try {
+                    raw = { ...JSON.parse(data.toString("utf8")), ...raw };
+                } catch (e) {
+                    throw new HttpError(400, `invalid "options": ${e.message}`);
+                }
+            }
+            else if (filename)
+                assets.push({ path: filename, data });
+            else
+                throw new HttpError(400, `unknown field "${name}", expected html, markdown, style, options or asset files`);
+        }
+        return parse_render_request(raw, styles, assets);
+    }
+    if (/^application\/json/i.test(content_type)) {
+        let raw: any;
+        try {
+            raw = JSON.parse(body.toString("utf8"));
+        } catch (e) {
+            throw new HttpError(400, `invalid JSON body: ${e.message}`);
+        }
+        return parse_render_request(raw, [], []);
+    }
+    throw new HttpError(415, `unsupported content type "${content_type}", expected application/json or multipart/form-data`);
+}
+
+function remove_dir(dir: string) {
+    for (let name of fs.readdirSync(dir)) {
+        let file_path = path.join(dir, name);
+        if (fs.lstatSync(file_path).isDirectory())
+            remove_dir(file_path);
+        else
+            fs.unlinkSync(file_path);
+    }
+    fs.rmdirSync(dir);
+}
+
+async function render(pool: BrowserPool, request: RenderRequest, html: boolean, timeout: number) : Promise<Buffer> {
+    let dir = fs.mkdtempSync(path.join(os.tmpdir(), "nice-pdf-"));
+    try {
+        for (let asset of request.assets) {
+            let file_path = path.join(dir, asset_path(asset.path));
+            fs.mkdirSync(path.dirname(file_path), { recursive: true });
+            fs.writeFileSync(file_path, asset.data);
+        }
+        let styles = request.styles.map((style, i) => {
+            let file_path = path.join(dir, `.style-${i}.css`);
+            fs.writeFileSync(file_path, style);
+            return file_path;
+        });
+        return await pool.use(browser => new Promise<Buffer>((resolve, reject) => {
+            let timer = setTimeout(() => {
+                pool.discard(browser).catch(() => {});
+                reject(new HttpError(504, `render timeout after ${timeout}ms`));
+            }, timeout);
+            let rendered = request.markdown !== undefined ? renderMarkdownPdf({
+                markdown_content: request.markdown,
+                markdown_path: path.join(dir, "index.md"),
+                styles,
+                breaks: request.breaks,
+                linkify: request.linkify,
+                highlight_theme: request.highlight_theme,
+                line_numbers: request.line_numbers,
+                toc_levels: request.toc_levels,
+                toc_selector: request.toc_selector,
+                paginate: request.paginate,
+                info: request.info,
+                html,
+                browser,
+            }) : renderPdf({
+                body: request.html!,
+                base_path: path.join(dir, "index.html"),
+                styles,
+                paginate: request.paginate,
+                toc: { levels: request.toc_levels, selector: request.toc_selector },
+                info: request.info,
+                html,
+                browser,
+            });
+            rendered.then(resolve, reject).then(() => clearTimeout(timer));
+        }));
+    }
+    finally {
+        remove_dir(dir);
+    }
+}
+
+/** render errors of the request content (ie. invalid math) are client errors */
+function error_status(e: any) : number {
+    if (e instanceof HttpError)
+        return e.status;
+    if (e instanceof BrowserLaunchError)
+        return 503;
+    if (e instanceof RenderError)
+        return 400;
+    return 500;
+}
+
+function send(res: http.ServerResponse, status: number, content_type: string, body: string | Buffer) {
+    res.writeHead(status, { 'Content-Type': content_type, 'Content-Length': Buffer.byteLength(body) });
+    res.end(body);
+}
+
+/**
+ * HTTP render server:
+ *  - POST /pdf: render html or markdown to pdf
+ *  - POST /html: render html or markdown to the paginated html
+ *  - GET /health: browser pool status, 503 when the last browser launch failed and no browser is connected
+ *
+ * Documents are rendered with local file access, only expose the server to trusted clients.
+ */
+export function createRenderServer(options: RenderServerOptions = {}) : http.Server {
+    const timeout = options.timeout || 60000;
+    const max_size = options.max_size || 20 * MB;
+    const pool = new BrowserPool({
+        size: options.browsers,
+        launch: { headless: true, args: options.sandbox === false ? ["--no-sandbox", "--disable-setuid-sandbox"] : [] },
+    });
+    pool.warmUp().catch(e => console.error(`unable to launch browsers: ${e.message}`));
+
+    let server = http.createServer(async (req, res) => {
+        let url = (req.url || "/").replace(/\?.*$/, "");
+        try {
+            if (url === "/health") {
+                if (req.method !== "GET")
+                    throw new HttpError(405, `method not allowed, expected GET`);
+                // a probe doesn't launch browsers: the pool is unavailable when its last launch failed and no browser is connected
+                let stats = pool.stats();
+                if (stats.launch_error && !stats.connected)
+                    return send(res, 503, "application/json", JSON.stringify({ status: "unavailable", error: stats.launch_error, browsers: stats }));
+                return send(res, 200, "application/json", JSON.stringify({ status: "ok", browsers: stats }));
+            }
+            if (url === "/pdf" || url === "/html") {
+                if (req.method !== "POST")
+                    throw new HttpError(405, `method not allowed, expected POST`);
+                let request = await read_render_request(req, max_size);
+                let output = await render(pool, request, url === "/html", timeout);
+                return send(res, 200, url === "/html" ? "text/html; charset=utf-8" : "application/pdf", output);
+            }
+            throw new HttpError(404, `not found, expected POST /pdf, POST /html or GET /health`);
+        } catch (e) {
+            let status = error_status(e);
+            if (status >= 500)
+                console.error(`${req.method} ${url} failed:`, e);
+            if (!res.headersSent)
+                send(res, status, "application/json", JSON.stringify({ error: e && e.message || `${e}`, ...(e instanceof RenderError ? { code: e.code } : {}) }));
+        }
+    });
+    server.on('close', () => pool.close());
+    return server;
+}
@@ -0,0 +1,128 @@
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const {test, after} = require('node:test');
+const {findConfig, loadConfig} = require('../dist/config');
+const {InvalidOptionError, InputNotFoundError} = require('paginate-html-to-pdf');
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "nice-pdf-config-"));
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+function write(file, content) {
+    let file_path = path.join(root, file);
+    fs.mkdirSync(path.dirname(file_path), { recursive: true });
+    fs.writeFileSync(file_path, typeof content === "string" ? content : JSON.stringify(content));
+    return file_path;
+}
+
+function assert_invalid(fn, message) {
+    assert.throws(fn, e => e instanceof InvalidOptionError && message.test(e.message));
+}
+
+/** paginate options of a configuration file */
+function paginate_config(name, paginate) {
+    return loadConfig(write(`paginate/${name}.json`, { paginate })).paginate;
+}
+
+test("loadConfig: paths are relative to the configuration file", () => {
+    let config_path = write("project/.nicepdfrc.json", {
+        styles: ["print.css"],
+        breaks: true,
+        toc_levels: [1, 2],
+        highlight_theme: "theme.css",
+        out_dir: "pdf",
+        paginate: { paper: "A5", paper_margin: "1cm" },
+    });
+    assert.deepStrictEqual(loadConfig(config_path), {
+        config_path,
+        styles: [path.join(root, "project/print.css")],
+        breaks: true,
+        toc_levels: [1, 2],
+        highlight_theme: path.join(root, "project/theme.css"),
+        out_dir: path.join(root, "project/pdf"),
+        paginate: { paper: "A5", paper_margin: { top: "1cm", right: "1cm", bottom: "1cm", left: "1cm" } },
+    });
+});
+
+test("loadConfig: invalid configurations", () => {
+    assert_invalid(() => loadConfig(write("invalid/json.json", "{ styles: ")), /^unable to load configuration file .*json\.json: /);
+    assert_invalid(() => loadConfig(write("invalid/array.json", [])), /array\.json: invalid "configuration", expected an object$/);
+    assert_invalid(() => loadConfig(write("invalid/unknown.json", { style: [] })), /unknown\.json: unknown key "style", expected one of /);
+    assert_invalid(() => loadConfig(write("invalid/styles.json", { styles: "print.css" })), /styles\.json: invalid "styles", expected an array of CSS style paths$/);
+    assert_invalid(() => loadConfig(write("invalid/breaks.json", { breaks: "yes" })), /breaks\.json: invalid "breaks", expected a boolean$/);
+    assert_invalid(() => loadConfig(write("invalid/toc.json", { toc_levels: [0] })), /toc\.json: invalid "toc_levels", expected an array of heading levels \(1 to 6\)$/);
+    assert_invalid(() => loadConfig(write("invalid/plugin.json", { plugins: ["not-a-plugin-module"] })), /plugin\.json: invalid "plugins": /);
+});
+
+test("loadConfig: a missing configuration file", () => {
+    assert.throws(() => loadConfig(path.join(root, "missing.json")), e => e instanceof InputNotFoundError && e.exit_code === 3);
+});
+
+test("loadConfig: paginate options", () => {
+    assert.deepStrictEqual(paginate_config("valid", {
+        paper: { width: "10cm", height: "20cm" },
+        paper_orientation: "landscape",
+        force_cut_tag_names: ["h1", "hr"],
+        min_height: "2cm",
+    }), {
+        paper: { width: "10cm", height: "20cm" },
+        paper_orientation: "landscape",
+        force_cut_tag_names: ["H1", "HR"],
+        min_height: "2cm",
+    });
+    assert_invalid(() => paginate_config("object", "A4"), /object\.json: invalid "paginate": expected an object$/);
+    assert_invalid(() => paginate_config("unknown", { papers: "A4" }), /unknown\.json: invalid "paginate": unknown key "papers", expected one of /);
+    assert_invalid(() => paginate_config("paper", { paper: "A7" }), /paper\.json: invalid "paginate": invalid paper: A7,/);
+    assert_invalid(() => paginate_config("length", { min_height: 2 }), /length\.json: invalid "paginate": invalid "min_height", expected a length$/);
+});
+
+test("loadConfig: code block paginate options", () => {
+    assert.deepStrictEqual(paginate_config("code", { min_lines: 3, continued_marker: "(continued)" }), { min_lines: 3, continued_marker: "(continued)" });
+    assert_invalid(() => paginate_config("min_lines", { min_lines: 0 }), /invalid "min_lines", expected a positive number of lines$/);
+    assert_invalid(() => paginate_config("marker", { continued_marker: true }), /invalid "continued_marker", expected a string$/);
+});
+
+test("loadConfig: widows and orphans", () => {
+    assert.deepStrictEqual(paginate_config("widows", { widows: 3, orphans: 1 }), { widows: 3, orphans: 1 });
+    assert_invalid(() => paginate_config("orphans", { orphans: "2" }), /invalid "orphans", expected a positive number of lines$/);
+});
+
+test("loadConfig: table paginate options", () => {
+    assert.deepStrictEqual(paginate_config("table", { min_rows: 3, continued_caption: "(continued)" }), { min_rows: 3, continued_caption: "(continued)" });
+    assert_invalid(() => paginate_config("min_rows", { min_rows: -1 }), /invalid "min_rows", expected a positive number of rows$/);
+});
+
+test("loadConfig: footnotes", () => {
+    assert.deepStrictEqual(paginate_config("footnotes", { footnotes: "page" }), { footnotes: "page" });
+    assert_invalid(() => paginate_config("bottom", { footnotes: "bottom" }), /invalid "footnotes", expected "end" or "page"$/);
+});
+
+test("loadConfig: odd pages and mirror margins", () => {
+    assert.deepStrictEqual(paginate_config("odd", { odd_page_tag_names: ["h1"], mirror_margins: true }), { odd_page_tag_names: ["H1"], mirror_margins: true });
+    assert_invalid(() => paginate_config("mirror", { mirror_margins: 1 }), /invalid "mirror_margins", expected a boolean$/);
+});
+
+test("loadConfig: watermarks", () => {
+    assert.deepStrictEqual(paginate_config("watermark", { watermark: "DRAFT" }), { watermark: { text: "DRAFT" } });
+    let watermarks = [{ text: "DRAFT", pages: "first" }, { image: "logo.svg", layer: "over", opacity: 0.5, rotation: 0 }];
+    assert.deepStrictEqual(paginate_config("watermarks", { watermark: watermarks }), { watermark: watermarks });
+    assert_invalid(() => paginate_config("opacity", { watermark: { text: "DRAFT", opacity: 2 } }), /invalid watermark "opacity", expected a number from 0 to 1$/);
+    assert_invalid(() => paginate_config("pages", { watermark: { text: "DRAFT", pages: "2..4" } }), /invalid pages: 2\.\.4,/);
+});
+
+test("findConfig: the closest configuration file of the markdown file", () => {
+    let config_path = write("tree/.nicepdfrc.json", { linkify: true });
+    write("tree/sub/package.json", { name: "sub" });
+    assert.deepStrictEqual(findConfig(path.join(root, "tree/sub/doc.md")), { config_path, linkify: true });
+});
+
+test("findConfig: the nicePdf key of a package.json", () => {
+    let package_path = write("package/package.json", { name: "docs", nicePdf: { line_numbers: true } });
+    assert.deepStrictEqual(findConfig(path.join(root, "package/doc.md")), { config_path: `${package_path}#nicePdf`, line_numbers: true });
+});
+
+test("findConfig: a malformed package.json", () => {
+    write("malformed/package.json", "{ \"name\": ");
+    assert_invalid(() => findConfig(path.join(root, "malformed/doc.md")), /^unable to load configuration file .*package\.json: /);
+});
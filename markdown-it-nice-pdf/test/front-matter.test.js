@@ -0,0 +1,66 @@
+const assert = require('assert');
+const path = require('path');
+const {test} = require('node:test');
+const {parseFrontMatter} = require('../dist/front-matter');
+const {InvalidOptionError} = require('paginate-html-to-pdf');
+
+const MARKDOWN_PATH = path.resolve("/docs/guide.md");
+
+test("no front matter", () => {
+    let { front_matter, content } = parseFrontMatter("# Title\n---\n", MARKDOWN_PATH);
+    assert.deepStrictEqual(front_matter, { info: {}, paginate: {} });
+    assert.strictEqual(content, "# Title\n---\n");
+});
+
+test("front matter keys", () => {
+    let markdown = [
+        "---",
+        "title: Guide",
+        "subject: Printing",
+        "author: [Ann, Bob]",
+        "keywords: pdf, print",
+        "date: 2019-05-04",
+        "styles: print.css",
+        "toc_levels: [1, 2]",
+        "paper: A5",
+        "margin: 1cm 2cm 1cm 2cm",
+        "orientation: landscape",
+        "layout: page",
+        "---",
+        "# Title",
+    ].join("\n");
+    let { front_matter, content } = parseFrontMatter(markdown, MARKDOWN_PATH);
+    assert.deepStrictEqual(front_matter, {
+        info: { title: "Guide", subject: "Printing", author: "Ann, Bob", keywords: ["pdf", "print"] },
+        styles: [path.resolve("/docs/print.css")],
+        toc_levels: [1, 2],
+        paginate: {
+            date: "2019-05-04",
+            paper: "A5",
+            paper_margin: { top: "1cm", right: "2cm", bottom: "1cm", left: "2cm" },
+            paper_orientation: "landscape",
+        },
+    });
+    // the front matter lines are kept empty, so the line numbers don't change
+    assert.strictEqual(content, "\n".repeat(13) + "# Title");
+});
+
+test("front matter with a BOM, CRLF and a ... end", () => {
+    let { front_matter, content } = parseFrontMatter("﻿---\r\ntitle: 42\r\n...\r\ntext", MARKDOWN_PATH);
+    assert.deepStrictEqual(front_matter.info, { title: "42" });
+    assert.strictEqual(content, "\n\n\ntext");
+});
+
+test("empty front matter", () => {
+    let { front_matter } = parseFrontMatter("---\n\n---\ntext", MARKDOWN_PATH);
+    assert.deepStrictEqual(front_matter, { info: {}, paginate: {} });
+});
+
+test("invalid front matter", () => {
+    let invalid = (markdown, message) => assert.throws(() => parseFrontMatter(markdown, MARKDOWN_PATH), e => e instanceof InvalidOptionError && message.test(e.message));
+    invalid("---\ntitle: [\n---\n", /guide\.md: invalid front matter: /);
+    invalid("---\n- a\n- b\n---\n", /guide\.md: invalid front matter, expected key: value pairs$/);
+    invalid("---\ntitle: { a: 1 }\n---\n", /guide\.md: invalid front matter "title": expected a string$/);
+    invalid("---\ntoc_levels: [1, 7]\n---\n", /guide\.md: invalid front matter "toc_levels": invalid heading level: 7$/);
+    invalid("---\npaper: A7\n---\n", /guide\.md: invalid front matter "paper": invalid paper: A7,/);
+});
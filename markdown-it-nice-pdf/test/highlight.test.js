@@ -0,0 +1,37 @@
+const assert = require('assert');
+const path = require('path');
+const {test} = require('node:test');
+const MarkdownIt = require('markdown-it');
+const {mdhighlight, highlight_theme_path} = require('../dist/highlight');
+
+function render(markdown, options) {
+    let md = new MarkdownIt();
+    md.use(mdhighlight, options);
+    return md.render(markdown);
+}
+
+test("fenced code blocks are highlighted, a line per span", () => {
+    let html = render("```js\nlet a = `x\ny`;\nb();\n```\n");
+    assert.ok(html.startsWith(`<pre class="hljs"><code class="language-js"><span class="line" data-line="1">`), html);
+    assert.deepStrictEqual(html.match(/data-line="\d+"/g), ['data-line="1"', 'data-line="2"', 'data-line="3"']);
+    // the template string span crosses the line, it is closed and reopened
+    let lines = html.split("\n").slice(0, 3);
+    assert.ok(lines[0].endsWith(`<span class="hljs-string">\`x</span></span>`), lines[0]);
+    assert.ok(lines[1].startsWith(`<span class="line" data-line="2"><span class="hljs-string">y\`</span>`), lines[1]);
+});
+
+test("unknown languages are escaped", () => {
+    let html = render("```nolang\n<a>\n```\n");
+    assert.strictEqual(html, `<pre class="hljs"><code class="language-nolang"><span class="line" data-line="1">&lt;a&gt;</span>\n</code></pre>\n\n`);
+});
+
+test("line numbers", () => {
+    assert.ok(render("```\na\n```\n", { line_numbers: true }).startsWith(`<pre class="hljs line-numbers"><code>`));
+});
+
+test("highlight_theme_path", () => {
+    assert.strictEqual(highlight_theme_path("print"), path.join(__dirname, "../highlight.css"));
+    assert.strictEqual(highlight_theme_path("github"), path.join(__dirname, "../node_modules/highlight.js/styles/github.css"));
+    assert.strictEqual(highlight_theme_path(__filename), __filename);
+    assert.throws(() => highlight_theme_path("no-such-theme"), /^InvalidOptionError: invalid highlight theme: no-such-theme, expected "print", a highlight.js style name or a CSS path$/);
+});
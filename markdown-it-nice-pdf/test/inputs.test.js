@@ -0,0 +1,73 @@
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const {test, after} = require('node:test');
+const {expandGlobs, readSummary} = require('../dist/inputs');
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "nice-pdf-inputs-"));
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+function write(file, content = "") {
+    let file_path = path.join(root, file);
+    fs.mkdirSync(path.dirname(file_path), { recursive: true });
+    fs.writeFileSync(file_path, content);
+    return file_path;
+}
+
+write("docs/a.md");
+write("docs/b.md");
+write("docs/notes.txt");
+write("docs/guide/c.md");
+write("docs/guide/deep/d.md");
+write("docs/.hidden/e.md");
+write("docs/node_modules/f.md");
+fs.symlinkSync(path.join(root, "docs"), path.join(root, "docs/guide/loop"));
+fs.symlinkSync(path.join(root, "missing"), path.join(root, "docs/broken.md"));
+
+test("expandGlobs: file name glob", () => {
+    assert.deepStrictEqual(expandGlobs([path.join(root, "docs/*.md")]), [path.join(root, "docs/a.md"), path.join(root, "docs/b.md")]);
+    assert.deepStrictEqual(expandGlobs([path.join(root, "docs/?.md")]), [path.join(root, "docs/a.md"), path.join(root, "docs/b.md")]);
+});
+
+test("expandGlobs: ** matches any number of directories, hidden directories, node_modules and symlink cycles are walked once", () => {
+    assert.deepStrictEqual(expandGlobs([path.join(root, "docs/**/*.md")]), [
+        path.join(root, "docs/a.md"),
+        path.join(root, "docs/b.md"),
+        path.join(root, "docs/guide/c.md"),
+        path.join(root, "docs/guide/deep/d.md"),
+    ]);
+});
+
+test("expandGlobs: paths without a glob are kept, duplicates are removed and the pattern order is kept", () => {
+    assert.deepStrictEqual(expandGlobs([path.join(root, "docs/b.md"), path.join(root, "docs/*.md"), path.join(root, "unknown.md")]), [
+        path.join(root, "docs/b.md"),
+        path.join(root, "docs/a.md"),
+        path.join(root, "unknown.md"),
+    ]);
+});
+
+test("expandGlobs: a missing base directory matches nothing", () => {
+    assert.deepStrictEqual(expandGlobs([path.join(root, "missing/*.md")]), []);
+});
+
+test("readSummary", () => {
+    let summary_path = write("book/SUMMARY.md", [
+        "# Summary",
+        "",
+        "* [Introduction](README.md)",
+        "* [Getting started](chapters/getting%20started.md \"Start\")",
+        "* [Usage](<chapters/usage.md>)",
+        "  * [Install](chapters/install.md#linux)",
+        "  * [Install again](chapters/install.md)",
+        "* [Website](https://example.com/index.md)",
+        "* [Image](images/cover.png)",
+        "* [Empty]()",
+    ].join("\n"));
+    assert.deepStrictEqual(readSummary(summary_path), [
+        { markdown_path: path.join(root, "book/README.md"), title: "Introduction" },
+        { markdown_path: path.join(root, "book/chapters/getting started.md"), title: "Getting started" },
+        { markdown_path: path.join(root, "book/chapters/usage.md"), title: "Usage" },
+        { markdown_path: path.join(root, "book/chapters/install.md"), title: "Install" },
+    ]);
+});
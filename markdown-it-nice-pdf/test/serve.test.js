@@ -0,0 +1,53 @@
+const assert = require('assert');
+const {test} = require('node:test');
+const {parse_multipart} = require('../dist/serve');
+
+const CONTENT_TYPE = "multipart/form-data; boundary=----boundary42";
+
+function multipart(parts, boundary = "----boundary42") {
+    let chunks = [];
+    for (let { headers, data } of parts)
+        chunks.push(Buffer.from(`--${boundary}\r\n${headers.join("\r\n")}\r\n\r\n`), Buffer.from(data), Buffer.from("\r\n"));
+    chunks.push(Buffer.from(`--${boundary}--\r\n`));
+    return Buffer.concat(chunks);
+}
+
+function assert_bad_request(fn, message) {
+    assert.throws(fn, e => e.status === 400 && e.message === message);
+}
+
+test("parse_multipart: fields and files", () => {
+    let png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]);
+    let body = multipart([
+        { headers: ['Content-Disposition: form-data; name="markdown"'], data: "# Title\r\n\r\ntext" },
+        { headers: ['Content-Disposition: form-data; name="asset"; filename="images/logo.png"', "Content-Type: image/png"], data: png },
+        { headers: ['Content-Disposition: form-data; name="empty"'], data: "" },
+    ]);
+    let parts = parse_multipart(body, CONTENT_TYPE);
+    assert.deepStrictEqual(parts.map(({ name, filename }) => ({ name, filename })), [
+        { name: "markdown", filename: undefined },
+        { name: "asset", filename: "images/logo.png" },
+        { name: "empty", filename: undefined },
+    ]);
+    assert.strictEqual(parts[0].data.toString(), "# Title\r\n\r\ntext");
+    assert.ok(parts[1].data.equals(png));
+    assert.strictEqual(parts[2].data.length, 0);
+});
+
+test("parse_multipart: quoted boundary and preamble", () => {
+    let body = Buffer.concat([Buffer.from("preamble\r\n"), multipart([{ headers: ['content-disposition: form-data; name="html"'], data: "<p>a</p>" }], "b:1")]);
+    let parts = parse_multipart(body, 'multipart/form-data; boundary="b:1"; charset=utf-8');
+    assert.deepStrictEqual(parts.map(({ name, data }) => [name, data.toString()]), [["html", "<p>a</p>"]]);
+});
+
+test("parse_multipart: parts without a name are skipped", () => {
+    let body = multipart([{ headers: ["Content-Type: text/plain"], data: "a" }, { headers: ['Content-Disposition: form-data; name="b"'], data: "b" }]);
+    assert.deepStrictEqual(parse_multipart(body, CONTENT_TYPE).map(part => part.name), ["b"]);
+});
+
+test("parse_multipart: malformed bodies", () => {
+    assert_bad_request(() => parse_multipart(Buffer.from(""), "multipart/form-data"), "missing multipart boundary");
+    assert_bad_request(() => parse_multipart(Buffer.from("no boundary"), CONTENT_TYPE), "invalid multipart body");
+    let truncated = multipart([{ headers: ['Content-Disposition: form-data; name="a"'], data: "a" }]).slice(0, -20);
+    assert_bad_request(() => parse_multipart(truncated, CONTENT_TYPE), "invalid multipart body");
+});
@@ -1,5 +1,10 @@
 
-type CutNode<N = Node> = { tagName: string, node: N, top: number, bottom: number, at: number };
+/** at: text offset of the cut, hyphen: the cut splits a hyphenated word, cells: cut of each cell of a split table row (null keeps the cell) */
+type CutNode<N = Node> = { tagName: string, node: N, top: number, bottom: number, at: number, hyphen?: boolean, cells?: (CutNode | null)[] };
+/** the element can't be cut on this page (ie. not enough lines), it is moved to the next page */
+type NextPage = "next_page";
+/** variants of the header or footer for the odd, even and first pages (side attribute) */
+type Sides = { odd?: HTMLElement, even?: HTMLElement, first?: HTMLElement };
 interface CutPage {
     original_closest: CutNode,
     closest: CutNode,
@@ -7,9 +12,16 @@ interface CutPage {
     /** elements that will be copied (parents) or moved (closest) to the next page */
     stack: CutNode[],
     page: number,
+    numbering: PageNumbering,
     num_pages: { num_pages: number },
     header: HTMLElement | null,
     footer: HTMLElement | null,
+    header_sides: Sides,
+    footer_sides: Sides,
+    /** notes at the bottom of the page (footnotes: "page") */
+    footnotes: HTMLElement[],
+    /** a blank page is inserted before the page so it starts on the expected side */
+    blank_before: boolean,
     top: number,
     /** expected top height of parents when copied to the next page */
     parents_top_height: number,
@@ -17,8 +29,19 @@ interface CutPage {
     next_expected_page_bottom: number,
 }
 
+/** page number styles (alpha numbers are repeated letters after z: aa, bb, ...) */
+export type PageFormat = "decimal" | "lower-roman" | "upper-roman" | "lower-alpha" | "upper-alpha";
+/** page numbering set by <header page-format="..." page-prefix="..."/> */
+export interface PageNumbering {
+    format: PageFormat,
+    prefix: string,
+}
+
 export interface Page  {
     page: number,
+    /** formatted page number with its prefix (ie. "iv", "A-3") */
+    label: string,
+    numbering: PageNumbering,
     paper: {
         format: "A5" | "A4" | "A3" | "B5" | "B4" | "JIS-B5" | "JIS-B4" | "letter" | "legal" | "ledger" | { width: string, height: string },
         margin: { top: string, right: string, bottom: string, left: string },
@@ -29,22 +52,56 @@ export interface Page  {
     footer: HTMLElement | null,
 }
 
+/** Pagination event worth a look, element is a short description of the element (tag, id and text) */
+export type Diagnostic =
+    /** the element overflows its page and could not be cut, it is clipped by overflow_mm */
+    { type: "clipped", page: number, element: string, overflow_mm: number } |
+    /** the page was cut before the element because of its tag name (force_cut_tag_names) */
+    { type: "forced_break", page: number, element: string } |
+    /** the cut was moved from an element to a previous one (ie. to keep a heading with its content) */
+    { type: "moved_cut", page: number, element: string, from: string } |
+    /** the heading is the last element of its page */
+    { type: "orphaned_heading", page: number, element: string };
+
+/** note referenced from the body, top and bottom are the reference position */
+type Footnote = { note: HTMLElement, top: number, bottom: number, height: number };
+/** notes of a container that are not yet on a page */
+interface ContainerFootnotes {
+    /** notes whose reference is below the current page */
+    pending: Footnote[],
+    /** notes referenced from the previous pages that did not fit */
+    carried: Footnote[],
+    /** height of the footnotes area without its notes */
+    area_height: number,
+    max_height: number,
+}
+
+/** Text or image drawn on the pages, behind or over their content */
+export interface Watermark {
+    /** text of the watermark (ie. "DRAFT") */
+    text?: string,
+    /** image or SVG url, drawn instead of the text (ie. a letterhead) */
+    image?: string,
+    /** drawn behind or over the page content, defaults: "behind" */
+    layer?: "behind" | "over",
+    /** defaults: 0.15 */
+    opacity?: number,
+    /** rotation in degrees, defaults: -45 for a text, 0 for an image */
+    rotation?: number,
+    /** comma separated pages (position in the document from 1): "1", "2-5", "3-", "first", "last", "odd" or "even", defaults: all pages */
+    pages?: string,
+}
+
 /**
- * Generate <div class="page"> elements for each print page in the body
- * Cutting is done in 3 steps:
- *  - setting body element paper style
- *  - read only computing cuts
- *  - apply cuts to generate <div class="page"> elements
- *
- * You can use <header /> and <footer /> to create a header and footer
- * for each page. You can use the {{ page }} and {{ num_pages }} placeholder
- * to render the current page number and the total number of pages.
- * <header page="N"/> set the current page number.
- * <header paper="A4"/> set the current page paper.
+ * Pages with the diagnostics of the pagination.
  *
- * This function is self-hosted, this means you can serialize it to string
+ * first_numbering_pages is the number of pages numbered from first_page (before the first <header page="N"/>),
+ * they are renumberable if they don't depend on their numbers (page number placeholders, odd/even sides,
+ * table of contents, cross references): another first_page or num_pages only changes the page numbers.
  */
-export default function paginate(options: {
+export type PaginateResult = Page[] & { diagnostics: Diagnostic[], first_numbering_pages: number, renumberable: boolean };
+
+export interface PaginateOptions {
     /** element that contains pages to cut, defaults: document.body */
     body?: HTMLElement,
 
@@ -57,20 +114,76 @@ export default function paginate(options: {
 
     /** list of element tagName that forcibly cut the page, defaults: ["H1", "H2", "HR"] */
     force_cut_tag_names?: string[],
+    /** list of element tagName that start on an odd page (ie. chapters), a blank page is inserted before them if needed, defaults: [] */
+    odd_page_tag_names?: string[],
+    /** swap the left and right paper margins on the even pages, the left margin is the inner one, defaults: false */
+    mirror_margins?: boolean,
     /** maximum allowed overcut in mm, defaults: 8cm */
     max_overcut?: string,
     /** minimum allowed height in mm, defaults: 8cm */
     min_height?: string,
+    /** minimum number of lines kept on each side of a code block (PRE) cut, defaults: 2 */
+    min_lines?: number,
+    /** minimum number of lines of a paragraph left at the top of the next page, defaults: the CSS widows of the paragraph */
+    widows?: number,
+    /** minimum number of lines of a paragraph left at the bottom of the page, defaults: the CSS orphans of the paragraph */
+    orphans?: number,
+    /** text shown on top of a code block continued from the previous page (data-continued attribute), defaults: none */
+    continued_marker?: string,
+    /** minimum number of rows of a table kept on each side of a table cut, defaults: 2 */
+    min_rows?: number,
+    /** text appended to the caption repeated on top of a table continued from the previous page, defaults: none (the caption is not repeated) */
+    continued_caption?: string,
+    /** footnotes (.footnotes section of markdown-it-footnote) at the end of the document or at the bottom of the page of their reference, defaults: "end" */
+    footnotes?: "end" | "page",
+    /** watermarks drawn on the pages, with the <watermark> elements of the body, defaults: none */
+    watermark?: Watermark | Watermark[],
     /** force first page element no margin-top, defaults: tagName !== "H1" */
     first_page_element_no_margin_top?: (tagName: string) => boolean,
 
+    /** selector of the tables of contents whose links get a dot leader and the target page number, defaults: ".table-of-contents" */
+    toc_selector?: string,
+    /** document title for the {{ title }} placeholder, defaults: document.title */
+    title?: string,
+    /** document date for the {{ date }} placeholder, defaults: today */
+    date?: string,
+    /** number of the first page (ie. when the document continues another one), defaults: 1 */
+    first_page?: number,
+    /** {{ num_pages }} of the pages before the first <header page="N"/> (ie. when the document is part of a bigger one), defaults: the number of pages */
+    num_pages?: number,
+
     /** log page cut informations, defaults: false */
     DEBUG?: boolean,
     /** trace page cut informations, defaults: false */
     TRACE?: boolean,
     /** cut pages with <div class="page"> elements, defaults: true  */
     PAGINATE?: boolean,
-} = {}) : Page[] {
+}
+
+/**
+ * Generate <div class="page"> elements for each print page in the body
+ * Cutting is done in 3 steps:
+ *  - setting body element paper style
+ *  - read only computing cuts
+ *  - apply cuts to generate <div class="page"> elements
+ *
+ * You can use <header /> and <footer /> to create a header and footer
+ * for each page. You can use the {{ page }} and {{ num_pages }} placeholder
+ * to render the current page number and the total number of pages.
+ * {{ section.h1 }} ... {{ section.h6 }} are replaced by the last heading of
+ * that level on or before the current page (running heads),
+ * {{ title }} and {{ date }} by the document title and date.
+ * Links of the table of contents (.table-of-contents) get the target page number,
+ * {{ ref:#id }} in the body text is replaced by a link to the element page number.
+ * <header page="N"/> set the current page number.
+ * <header paper="A4"/> set the current page paper.
+ *
+ * The returned pages have a diagnostics property: clipped elements, forced breaks,
+ * moved cuts and orphaned headings.
+ *
+ * This function is self-hosted, this means you can serialize it to string
+ */
+export default function paginate(options: PaginateOptions = {}) : PaginateResult {
     ///////////////
     // Const
     function option<T>(value: T | undefined, defaultValue: T) : T {
@@ -87,7 +200,7 @@ export default function paginate(options: {
         pc: 16,
         pt: 1.3333333333333333,
     };
-    const RX_LENGTH = /^(\d+)(px|cm|mm|in|pc|pt)$/;
+    const RX_LENGTH = /^(\d+(?:\.\d+)?)(px|cm|mm|in|pc|pt)$/;
     function length_to_px(length: string) : number {
         let m = length.match(RX_LENGTH);
         if (!m)
@@ -118,22 +231,68 @@ export default function paginate(options: {
     // Options
     const MAX_OVERCUT = length_to_px(option(options.max_overcut, "8cm"));
     const MIN_HEIGHT = length_to_px(option(options.min_height, "2cm"));
+    const MIN_LINES = Math.max(1, option(options.min_lines, 2));
+    const WIDOWS = options.widows;
+    const ORPHANS = options.orphans;
+    const CONTINUED_MARKER = option(options.continued_marker, "");
+    const MIN_ROWS = Math.max(1, option(options.min_rows, 2));
+    const CONTINUED_CAPTION = option(options.continued_caption, "");
+    const FOOTNOTES = option(options.footnotes, "end");
+    const MIRROR_MARGINS = option(options.mirror_margins, false);
+    const WATERMARKS = options.watermark === undefined ? [] : ([] as Watermark[]).concat(options.watermark);
+    /** maximum part of the page height taken by the footnotes */
+    const MAX_FOOTNOTES_RATIO = 0.5;
+    const MAX_FOOTNOTES_PASSES = 3;
     const DEBUG = option(options.DEBUG, false);
     const TRACE = option(options.TRACE, false);
     const PAGINATE = option(options.PAGINATE, true);
 
     const body = option(options.body, document.body);
+    const TOC_SELECTOR = option(options.toc_selector, ".table-of-contents");
+    const MAX_PAGE_NUMBERS_PASSES = 3;
+    const RX_PAGE_REF = /{{\s*ref:(#[^\s}]+)\s*}}/g;
+    const TITLE = option(options.title, document.title);
+    const DATE = option(options.date, new Date().toLocaleDateString());
+    const FIRST_PAGE = option(options.first_page, 1);
+    const NUM_PAGES = options.num_pages;
     const first_page_element_no_margin_top = option(options.first_page_element_no_margin_top, (tagName: string) => tagName !== "H1");
 
     ///////////////
     // CONTEXT
-    let page = 0;
+    let page = FIRST_PAGE - 1;
     let num_pages = { num_pages: 0 };
+    /** pages before the first <header page="N"/>, their {{ num_pages }} can be overridden */
+    let first_num_pages = num_pages;
     let expected_page_bottom: number;
     let header: HTMLElement | null = null;
     let footer: HTMLElement | null = null;
+    let header_sides: Sides = {};
+    let footer_sides: Sides = {};
+    let numbering: PageNumbering = { format: "decimal", prefix: "" };
     let cut_elements = new Set<Node>();
+    /** code blocks and paragraphs that were moved to the next page because they had not enough lines to be cut */
+    let moved_elements = new Set<Node>();
     let last_cutable_tag_name: string = "HEADER";
+    let pages_style: HTMLStyleElement | null = null;
+    let diagnostics: Diagnostic[] = [];
+    /** the pages numbered from first_page don't depend on first_page and num_pages */
+    let renumberable = !MIRROR_MARGINS;
+
+    function reset_context() {
+        page = FIRST_PAGE - 1;
+        num_pages = { num_pages: 0 };
+        first_num_pages = num_pages;
+        header = null;
+        footer = null;
+        header_sides = {};
+        footer_sides = {};
+        numbering = { format: "decimal", prefix: "" };
+        cut_elements = new Set<Node>();
+        moved_elements = new Set<Node>();
+        last_cutable_tag_name = "HEADER";
+        diagnostics = [];
+        renumberable = !MIRROR_MARGINS;
+    }
 
     ///////////////
     // LIB
@@ -154,11 +313,92 @@ export default function paginate(options: {
         "H1", "H2",
         "HR",
     ]);
+    const odd_page_tag_names = new Set(options.odd_page_tag_names || []);
+
+    /** parts of a table that stay with its first row */
+    const table_head_tag_names = new Set(["CAPTION", "THEAD", "TFOOT"]);
 
     const always_overcut_tag_names = new Map([
         ["H1",6], ["H2", 5], ["H3", 4], ["H4", 3], ["H5", 2], ["H6", 1]
     ]);
 
+    const FORCED_BREAKS = new Set(["page", "always", "left", "right", "recto", "verso"]);
+    const AVOID_BREAKS = new Set(["avoid", "avoid-page"]);
+    type Break = "force" | "avoid" | "auto";
+    function break_value(...values: (string | null)[]) : Break {
+        if (values.some(value => !!value && FORCED_BREAKS.has(value)))
+            return "force";
+        if (values.some(value => !!value && AVOID_BREAKS.has(value)))
+            return "avoid";
+        return "auto";
+    }
+
+    /**
+     * CSS break-before of the element and break-after of its previous element (and legacy page-break-*).
+     * The break-after of the last descendants of the previous element applies too (ie. `<section><p style="break-after: page">`),
+     * and a .page-break element forces a break after itself.
+     */
+    function break_between(element: HTMLElement) : Break {
+        let style = window.getComputedStyle(element);
+        let before = break_value(style.breakBefore, style.pageBreakBefore);
+        let after = break_value(...breaks_after(previous_element_sibling(element.previousSibling)));
+        if (before === "force" || after === "force")
+            return "force";
+        if (before === "avoid" || after === "avoid")
+            return "avoid";
+        return "auto";
+    }
+
+    /** break-after values of the element and of its last descendants, "page" for a .page-break */
+    function breaks_after(element: HTMLElement | null) : string[] {
+        let values: string[] = [];
+        for (; element; element = previous_element_sibling(element.lastChild)) {
+            let style = window.getComputedStyle(element);
+            if (element.classList.contains("page-break"))
+                values.push("page");
+            values.push(style.breakAfter, style.pageBreakAfter);
+        }
+        return values;
+    }
+
+    /** side of the page started by the element: odd for odd_page_tag_names and CSS breaks right or recto, even for left or verso */
+    function break_side(element: HTMLElement) : "odd" | "even" | null {
+        if (odd_page_tag_names.has(element.tagName))
+            return "odd";
+        let style = window.getComputedStyle(element);
+        let values = [style.breakBefore, style.pageBreakBefore, ...breaks_after(previous_element_sibling(element.previousSibling))];
+        if (values.some(value => value === "right" || value === "recto"))
+            return "odd";
+        if (values.some(value => value === "left" || value === "verso"))
+            return "even";
+        return null;
+    }
+
+    /** side of the page started by a container: the side of its header or of its first content element */
+    function container_side(container: HTMLElement) : "odd" | "even" | null {
+        for (let element = container.firstElementChild; element; element = element.nextElementSibling) {
+            let side = element instanceof HTMLElement ? break_side(element) : null;
+            if (side || (element.tagName !== "HEADER" && element.tagName !== "FOOTER"))
+                return side;
+        }
+        return null;
+    }
+
+    /** side attribute of a header or footer variant */
+    function parse_side(side: string) : keyof Sides {
+        if (side === "odd" || side === "even" || side === "first")
+            return side;
+        throw new Error(`invalid side: ${side}`);
+    }
+
+    /** CSS break-inside: avoid (and legacy page-break-inside), .keep-together keeps the element on one page */
+    function avoid_break_inside(element: Element) : boolean {
+        if (element.classList.contains("keep-together"))
+            return true;
+        let style = window.getComputedStyle(element);
+        return break_value(style.breakInside, style.pageBreakInside) === "avoid";
+    }
+
 
     function parse_paper(paper: string | undefined | null) : typeof options.paper | undefined {
         if (!paper)
@@ -189,7 +429,38 @@ export default function paginate(options: {
             return undefined;
         if (paper_orientation === "portrait" || paper_orientation === "landscape")
             return paper_orientation;
-        throw new Error(`invalid paper_margin: ${paper_orientation}`);
+        throw new Error(`invalid paper_orientation: ${paper_orientation}`);
+    }
+
+    function parse_page_format(page_format: string | null) : PageFormat {
+        if (!page_format || page_format === "decimal")
+            return "decimal";
+        if (page_format === "alpha")
+            return "lower-alpha";
+        if (page_format === "lower-roman" || page_format === "upper-roman" || page_format === "lower-alpha" || page_format === "upper-alpha")
+            return page_format;
+        throw new Error(`invalid page-format: ${page_format}`);
+    }
+
+    const ROMAN_NUMERALS: [number, string][] = [
+        [1000, "m"], [900, "cm"], [500, "d"], [400, "cd"], [100, "c"], [90, "xc"],
+        [50, "l"], [40, "xl"], [10, "x"], [9, "ix"], [5, "v"], [4, "iv"], [1, "i"],
+    ];
+    /** formatted page number with its prefix, numbers below 1 are decimal */
+    function page_label(page: number, { format, prefix }: PageNumbering) : string {
+        let label = `${page}`;
+        if (page >= 1 && format.endsWith("roman")) {
+            label = "";
+            for (let [value, numeral] of ROMAN_NUMERALS) {
+                for (; page >= value; page -= value)
+                    label += numeral;
+            }
+        }
+        else if (page >= 1 && format.endsWith("alpha")) {
+            // a ... z, aa ... zz, aaa ... like the PDF page labels
+            label = String.fromCharCode(97 + (page - 1) % 26).repeat(Math.floor((page - 1) / 26) + 1);
+        }
+        return prefix + (format.startsWith("upper") ? label.toUpperCase() : label);
     }
 
     const WHITESPACE_RX = /^\s*$/;
@@ -200,7 +471,9 @@ export default function paginate(options: {
     function next_cut_stack(node: Node | null) : CutNode[] {
         let stack: CutNode[] = [];
         while (node) {
-            let cut = next_cut(node, expected_page_bottom, stack.length);
+            // the foot of the split tables is repeated at the page bottom
+            let bottom = stack.reduce((bottom, cut) => bottom - table_part_height(cut.node, "TFOOT"), expected_page_bottom);
+            let cut = next_cut(node, bottom, stack.length);
             node = null;
             if (cut === true) {
                 // node.parentNode.bottom > expected_page_bottom
@@ -215,7 +488,8 @@ export default function paginate(options: {
             }
             else if (typeof cut !== "boolean") {
                 stack.push(cut);
-                if (cut.top < expected_page_bottom && !force_closest_tag_names.has(cut.tagName)) {
+                // an element that fits the page is cut by a forced break before it, not inside it
+                if (cut.top < bottom && cut.bottom > bottom && !force_closest_tag_names.has(cut.tagName) && !avoid_break_inside(cut.node as Element)) {
                     node = cut.node.firstChild;
                 }
             }
@@ -233,36 +507,55 @@ export default function paginate(options: {
         let could_have_cut = false;
         while (node) {
             if (node instanceof HTMLElement) {
-                if (node.tagName === "HEADER") {
+                if (node.tagName === "HEADER" && node.hasAttribute("side")) {
+                    header_sides = { ...header_sides, [parse_side(node.getAttribute("side")!)]: node };
+                    last_cutable_tag_name = "HEADER";
+                }
+                else if (node.tagName === "HEADER") {
                     header = node;
+                    header_sides = {};
                     last_cutable_tag_name = "HEADER";
                     let new_page_num = header.getAttribute("page");
                     if (new_page_num) {
                         page = +new_page_num - 1;
                         num_pages = { num_pages: 0 };
                     }
+                    if (new_page_num || header.hasAttribute("page-format") || header.hasAttribute("page-prefix"))
+                        numbering = { format: parse_page_format(header.getAttribute("page-format")), prefix: header.getAttribute("page-prefix") || "" };
+                }
+                else if (node.tagName === "FOOTER" && node.hasAttribute("side")) {
+                    footer_sides = { ...footer_sides, [parse_side(node.getAttribute("side")!)]: node };
                 }
                 else if (node.tagName === "FOOTER") {
                     footer = node;
+                    footer_sides = {};
                 }
-                else if (is_cut_block(node.tagName, lvl)) {
-                    could_have_cut = true;
-                    let can_force_cut = last_cutable_tag_name !== "HEADER";
-                    let rect = node.getBoundingClientRect();
-                    if (TRACE) console.info(`${lvl}! ${rect.bottom} > ${bot}`, node, rect.top, rect.bottom, last_cutable_tag_name);
-                    last_cutable_tag_name = node.tagName;
-                    if (
-                        (
-                            rect.bottom > bot ||
+                else {
+                    // computed once: it reads the computed styles of the node and of the previous element
+                    let brk = break_between(node);
+                    if (is_cut_block(node.tagName, lvl) || brk !== "auto" || avoid_break_inside(node)) {
+                        could_have_cut = true;
+                        let can_force_cut = last_cutable_tag_name !== "HEADER";
+                        // a nested forced break on a first child is the break of its parent
+                        let css_force_cut = brk === "force" && (lvl === 0 || !!previous_element_sibling(node.previousSibling));
+                        let rect = node.getBoundingClientRect();
+                        if (TRACE) console.info(`${lvl}! ${rect.bottom} > ${bot}`, node, rect.top, rect.bottom, last_cutable_tag_name);
+                        last_cutable_tag_name = node.tagName;
+                        if (
                             (
-                                lvl === 0 &&
-                                force_cut_tag_names.has(node.tagName) &&
-                                can_force_cut
-                            )
-                        ) &&
-                        !cut_elements.has(node)
-                    ) {
-                        return { tagName: node.tagName, node, top: rect.top, bottom: rect.bottom, at: 0 };
+                                rect.bottom > bot ||
+                                (
+                                    (
+                                        (lvl === 0 && force_cut_tag_names.has(node.tagName)) ||
+                                        css_force_cut
+                                    ) &&
+                                    can_force_cut
+                                )
+                            ) &&
+                            !cut_elements.has(node)
+                        ) {
+                            return { tagName: node.tagName, node, top: rect.top, bottom: rect.bottom, at: 0 };
+                        }
                     }
                 }
             }
@@ -306,6 +599,195 @@ export default function paginate(options: {
         return empty_el;
     }
 
+    const RX_PAGE_PLACEHOLDER = /{{\s*(page|num_pages)\s*}}/;
+    /** the header or footer shows the page number or the number of pages, or has odd and even variants */
+    function numbered(element: HTMLElement | null, sides: Sides) : boolean {
+        return !!(sides.odd || sides.even) || [element, sides.first].some(el => !!el && RX_PAGE_PLACEHOLDER.test(el.innerHTML));
+    }
+
+    function pages_count(pages: { num_pages: number }) {
+        return pages === first_num_pages && NUM_PAGES !== undefined ? NUM_PAGES : pages.num_pages;
+    }
+
+    function describe_element(node: Node) : string {
+        let element = node instanceof HTMLElement ? node : node.parentElement;
+        if (!element)
+            return node.nodeName;
+        let text = (element.textContent || "").replace(/\s+/g, " ").trim();
+        if (text.length > 40)
+            text = `${text.substring(0, 40)}…`;
+        return `${element.tagName.toLowerCase()}${element.id ? `#${element.id}` : ""}${text ? ` "${text}"` : ""}`;
+    }
+
+    /** headings that are the last element of their page (the cut could not keep them with their content) */
+    function orphaned_headings(pages: Page[]) {
+        for (let { page, container, footer } of pages) {
+            let last = previous_element_sibling(footer ? footer.previousSibling : container.lastChild);
+            while (last && (last.tagName === "HEADER" || last.classList.contains("page-footnotes")))
+                last = previous_element_sibling(last.previousSibling);
+            if (last && always_overcut_tag_names.has(last.tagName))
+                diagnostics.push({ type: "orphaned_heading", page, element: describe_element(last) });
+        }
+    }
+
+    function escape_html(text: string) {
+        return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+    }
+
+    /** replace running heads, title and date placeholders in headers and footers */
+    function resolve_running_variables(pages: Page[]) {
+        let variables = [
+            { rx: /{{\s*title\s*}}/g, by: escape_html(TITLE) },
+            { rx: /{{\s*date\s*}}/g, by: escape_html(DATE) },
+        ];
+        let section: string[] = [];
+        for (let { container, header, footer } of pages) {
+            for (let heading of container.querySelectorAll("h1, h2, h3, h4, h5, h6")) {
+                if ((header && header.contains(heading)) || (footer && footer.contains(heading)))
+                    continue;
+                let lvl = +heading.tagName.substring(1);
+                section[lvl] = (heading.textContent || "").trim();
+                section.length = lvl + 1;
+            }
+            let page_variables = [...variables];
+            for (let lvl = 1; lvl <= 6; lvl++)
+                page_variables.push({ rx: new RegExp(`{{\\s*section\\.h${lvl}\\s*}}`, "g"), by: escape_html(section[lvl] || "") });
+            for (let element of [header, footer]) {
+                if (element && element.innerHTML.indexOf("{{") !== -1) {
+                    let html = element.innerHTML;
+                    for (let { rx, by } of page_variables)
+                        html = html.replace(rx, () => by);
+                    element.innerHTML = html;
+                }
+            }
+        }
+    }
+
+    /** element targeted by an internal link href (#id), ids may be percent encoded or not */
+    function link_target(href: string) : HTMLElement | null {
+        let id = href.substring(1);
+        let target = document.getElementById(id);
+        if (!target) {
+            try {
+                target = document.getElementById(decodeURIComponent(id));
+            } catch (e) {
+                // not percent encoded
+            }
+        }
+        return target;
+    }
+
+    function toc_links() : HTMLAnchorElement[] {
+        let links: HTMLAnchorElement[] = [];
+        for (let toc of body.querySelectorAll(TOC_SELECTOR))
+            links.push(...toc.querySelectorAll<HTMLAnchorElement>('a[href^="#"]'));
+        return links;
+    }
+
+    /** add a dot leader and a page number placeholder to each table of contents link */
+    function prepare_toc() {
+        for (let link of toc_links()) {
+            if (link.querySelector(".toc-page"))
+                continue;
+            let title = document.createElement("span");
+            title.className = "toc-title";
+            while (link.firstChild)
+                title.appendChild(link.firstChild);
+            let leader = document.createElement("span");
+            leader.className = "toc-leader";
+            let page_number = document.createElement("span");
+            page_number.className = "toc-page";
+            link.appendChild(title);
+            link.appendChild(leader);
+            link.appendChild(page_number);
+            link.className += " toc-link";
+        }
+    }
+
+    /** replace {{ ref:#id }} cross references in the body text by a link whose text is the target page number */
+    function prepare_page_refs() : boolean {
+        let texts: Text[] = [];
+        let walker = document.createTreeWalker(body, NodeFilter.SHOW_TEXT);
+        while (walker.nextNode()) {
+            let text = walker.currentNode as Text;
+            let parent = text.parentElement;
+            if (text.data.indexOf("{{") !== -1 && parent && !parent.closest("header, footer, pre, code, script, style"))
+                texts.push(text);
+        }
+        let found = false;
+        for (let text of texts) {
+            let fragment = document.createDocumentFragment();
+            let data = text.data;
+            let last = 0;
+            let m: RegExpExecArray | null;
+            RX_PAGE_REF.lastIndex = 0;
+            while (m = RX_PAGE_REF.exec(data)) {
+                if (m.index > last)
+                    fragment.appendChild(document.createTextNode(data.substring(last, m.index)));
+                let ref = document.createElement("a");
+                ref.className = "page-ref";
+                ref.setAttribute("href", m[1]);
+                fragment.appendChild(ref);
+                last = m.index + m[0].length;
+            }
+            if (last === 0)
+                continue;
+            if (last < data.length)
+                fragment.appendChild(document.createTextNode(data.substring(last)));
+            text.parentNode!.replaceChild(fragment, text);
+            found = true;
+        }
+        return found;
+    }
+
+    /** page number placeholders (table of contents and cross references) with the href of their target */
+    function page_number_placeholders() : [Element, string][] {
+        let placeholders: [Element, string][] = [];
+        for (let link of toc_links()) {
+            let page_number = link.querySelector(".toc-page");
+            if (page_number)
+                placeholders.push([page_number, link.getAttribute("href")!]);
+        }
+        for (let ref of body.querySelectorAll("a.page-ref"))
+            placeholders.push([ref, ref.getAttribute("href")!]);
+        return placeholders;
+    }
+
+    function page_numbers_height() {
+        let height = 0;
+        for (let toc of body.querySelectorAll(TOC_SELECTOR))
+            height += toc.getBoundingClientRect().height;
+        for (let ref of body.querySelectorAll("a.page-ref"))
+            height += ref.parentElement ? ref.parentElement.getBoundingClientRect().height : 0;
+        return height;
+    }
+
+    /** set page number placeholders to the known page numbers */
+    function prepare_page_numbers(numbers: Map<string, string>) {
+        for (let [placeholder, href] of page_number_placeholders())
+            placeholder.textContent = numbers.get(href) || "000";
+    }
+
+    /**
+     * Replace page number placeholders by the page number of the link target.
+     * Returns true if the height of the elements that contain them changed (the pagination must be done again).
+     */
+    function fill_page_numbers(numbers: Map<string, string>) : boolean {
+        let height = page_numbers_height();
+        let changed = false;
+        for (let [placeholder, href] of page_number_placeholders()) {
+            let target = link_target(href);
+            let container = target && target.closest(".page");
+            let number = container && container.getAttribute("page-label") || "";
+            if (numbers.get(href) !== number) {
+                numbers.set(href, number);
+                changed = true;
+            }
+            placeholder.textContent = number;
+        }
+        return changed && page_numbers_height() !== height;
+    }
+
     function clone_element(element: HTMLElement, variables: { rx: RegExp, by: string }[]): HTMLElement;
     function clone_element(element: HTMLElement | null, variables: { rx: RegExp, by: string }[]): HTMLElement | null;
     function clone_element(element: HTMLElement | null, variables: { rx: RegExp, by: string }[]): HTMLElement | null {
@@ -321,10 +803,13 @@ export default function paginate(options: {
     }
 
     const ENDS_WITH_SEE = /:\s*$/;
-    function fix_weird_cut_positions(closest: CutNode, expected_page_bottom: number): CutNode {
+    function fix_weird_cut_positions(closest: CutNode, expected_page_bottom: number, page_top: number): CutNode {
         let last_closest: CutNode;
         do {
             last_closest = closest;
+            // a forced break (CSS break-before/break-after) stays where it is
+            if (closest.node instanceof HTMLElement && break_between(closest.node) === "force")
+                break;
             let cTagName = closest.tagName;
             let previous_available_cut = cut_from_element(previous_element_sibling(closest.node.previousSibling));
             if (!previous_available_cut)
@@ -352,8 +837,16 @@ export default function paginate(options: {
                     // keep the paragraph before UL or OL
                     closest = previous_available_cut;
                 }
-                else if (cTagName === "TBODY" && pTagName === "THEAD") {
-                    // no cut on the first raw
+                else if (table_head_tag_names.has(pTagName) && (cTagName === "TBODY" || table_head_tag_names.has(cTagName))) {
+                    // no cut on the first raw, the caption, head and foot stay with it
+                    closest = previous_available_cut;
+                }
+                else if (cTagName === "TR" && table_rows_apart(closest.node, page_top)) {
+                    // keep min_rows rows of the table on each side of the cut
+                    closest = previous_available_cut;
+                }
+                else if (overcut < MAX_OVERCUT && closest.node instanceof HTMLElement && break_between(closest.node) === "avoid") {
+                    // CSS break-before: avoid or break-after: avoid of the previous element
                     closest = previous_available_cut;
                 }
             }
@@ -386,7 +879,64 @@ export default function paginate(options: {
         return null;
     }
 
-    function fix_overflow(closest: CutNode) {
+    /** closest block element of the node in the closest element */
+    function text_block(node: Node, closest: Node) : HTMLElement {
+        let element = node.parentElement!;
+        while (element !== closest && element.parentElement && window.getComputedStyle(element).display!.startsWith("inline"))
+            element = element.parentElement;
+        return element;
+    }
+
+    function leaf_client_rects(node: Text, start: number, end: number) {
+        let range = document.createRange();
+        range.setStart(node, start);
+        range.setEnd(node, end);
+        return [...range.getClientRects()].filter(rect => rect.height > 0);
+    }
+
+    type TextLine = { start: [Text, number], top: number, bottom: number };
+    /**
+     * Lines of the block text, a line starts at a word below the previous line.
+     * Words are measured as a whole, only a word broken across lines (ie. hyphenated) is measured by character.
+     */
+    function text_lines(block: Node) : TextLine[] {
+        let lines: TextLine[] = [];
+        function add(text: Text, at: number, rect: { top: number, bottom: number }) {
+            let line = lines[lines.length - 1];
+            if (!line || rect.top >= line.bottom - 1)
+                lines.push({ start: [text, at], top: rect.top, bottom: rect.bottom });
+            else
+                line.bottom = Math.max(line.bottom, rect.bottom);
+        }
+        let walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+        for (let text = walker.nextNode() as Text | null; text; text = walker.nextNode() as Text | null) {
+            let rx = /\S+/g;
+            let m: RegExpExecArray | null;
+            while (m = rx.exec(text.data)) {
+                let start = m.index;
+                let end = start + m[0].length;
+                let rects = leaf_client_rects(text, start, end);
+                if (rects.every(rect => Math.abs(rect.top - rects[0].top) < 1)) {
+                    if (rects.length)
+                        add(text, start, { top: rects[0].top, bottom: Math.max(...rects.map(rect => rect.bottom)) });
+                    continue;
+                }
+                for (let i = start; i < end; i++) {
+                    let rect = leaf_bounding_box(text, i, i + 1);
+                    if (rect.height > 0)
+                        add(text, i, rect);
+                }
+            }
+        }
+        return lines;
+    }
+
+    /**
+     * Cut the text that crosses the page bottom at the start of a line,
+     * keeping at least orphans lines of the paragraph on this page and widows lines on the next one.
+     * A cut inside a word is moved to the word start, unless the word is hyphenated.
+     */
+    function fix_overflow(closest: CutNode, page_top: number) : CutNode | NextPage | null {
         let overcut = expected_page_bottom - closest.top;
         let overflow = closest.bottom - expected_page_bottom;
         let bottom = expected_page_bottom;
@@ -395,32 +945,219 @@ export default function paginate(options: {
         let cut_text = find_leaf_cut(closest.node, bottom);
         if (!cut_text)
             return null;
+        if (cut_text.top >= bottom) {
+            if (TRACE) console.info(`cut_at`, cut_text);
+            return cut_text;
+        }
 
-        // let's find the best position to cut this text
-        if (cut_text.top < bottom) {
-            let i = 1, len = cut_text.node.wholeText.length;
-            for (; i < len; i++) {
-                let rect = leaf_bounding_box(cut_text.node, i - 1 , i);
-                if (rect.bottom > bottom) {
-                    cut_text.top = rect.top;
-                    break;
+        // let's find the best line to cut this text
+        let block = text_block(cut_text.node, closest.node);
+        let lines = text_lines(block);
+        let style = window.getComputedStyle(block);
+        let widows = Math.max(1, option(WIDOWS, parseInt(style.widows!) || 1));
+        let orphans = Math.max(1, option(ORPHANS, parseInt(style.orphans!) || 1));
+        let first_on_page = lines.filter(line => line.top < page_top).length;
+        let bottom_line = lines.findIndex(line => line.bottom > bottom);
+        if (bottom_line === -1)
+            return null;
+        let cut_line = Math.max(first_on_page, Math.min(bottom_line, lines.length - widows));
+        if (cut_line - first_on_page < orphans) {
+            if (DEBUG) console.info(`unable to cut paragraph at line ${cut_line} (orphans: ${orphans}, widows: ${widows})`, block);
+            if (first_on_page === 0) {
+                // move the whole paragraph to the next page
+                let rect = block.getBoundingClientRect();
+                if (block === closest.node || rect.top <= closest.top)
+                    return "next_page";
+                return { tagName: block.tagName, node: block, top: rect.top, bottom: rect.bottom, at: 0 };
+            }
+            // a continued paragraph can't move to the next page, it is cut at the page bottom regardless of widows and orphans
+            if (bottom_line <= first_on_page)
+                return null;
+            cut_line = bottom_line;
+        }
+
+        let line = lines[cut_line];
+        let [text, at] = line.start;
+        let hyphen = false;
+        if (at > 0 && !WHITESPACE_RX.test(text.data[at - 1])) {
+            let hyphens = window.getComputedStyle(text.parentElement!).hyphens;
+            if (text.data[at - 1] === "\u00AD" || hyphens === "auto") {
+                hyphen = true;
+            }
+            else {
+                while (at > 0 && !WHITESPACE_RX.test(text.data[at - 1]))
+                    at--;
+            }
+        }
+        let node: Node = text;
+        while (at === 0 && !node.previousSibling && node.parentNode && node.parentNode !== closest.node)
+            node = node.parentNode;
+        let cut: CutNode = { tagName: node.nodeName, node, top: line.top, bottom: line.bottom, at, hyphen };
+        if (TRACE) console.info(`cut_at`, cut);
+        return cut;
+    }
+
+    type Line = { start: [Text, number], end: [Text, number] };
+    function pre_lines(pre: Node) : Line[] {
+        let lines: Line[] = [];
+        let line_start = true;
+        let walker = document.createTreeWalker(pre, NodeFilter.SHOW_TEXT);
+        for (let text = walker.nextNode() as Text | null; text; text = walker.nextNode() as Text | null) {
+            let data = text.data;
+            for (let i = 0; i < data.length; i++) {
+                if (data[i] === "\n")
+                    line_start = true;
+                else if (line_start) {
+                    lines.push({ start: [text, i], end: [text, i + 1] });
+                    line_start = false;
                 }
+                else
+                    lines[lines.length - 1].end = [text, i + 1];
             }
-            cut_text.at = i - 1;
         }
-        if (TRACE) console.info(`cut_at`, cut_text);
-        return cut_text;
+        return lines;
     }
 
-    function table_thead(element: HTMLElement) : HTMLElement | null {
-        if (element.tagName === "TABLE") {
-            let thead = element.firstElementChild;
-            if (thead && thead.tagName === "THEAD")
-                return thead as HTMLElement;
+    function line_bounding_box({ start, end }: Line) {
+        let range = document.createRange();
+        range.setStart(start[0], start[1]);
+        range.setEnd(end[0], end[1]);
+        return range.getBoundingClientRect();
+    }
+
+    /**
+     * Find the first line of the code block that crosses the page bottom.
+     * The cut is moved up to the line element if the line starts an element (ie. <span class="line">),
+     * so elements are not duplicated on both pages.
+     */
+    function fix_pre_overflow(closest: CutNode, page_top: number) : CutNode | NextPage {
+        let bottom = expected_page_bottom;
+        let lines = pre_lines(closest.node);
+        let first_on_page = 0;
+        let cut_line = -1;
+        for (let [i, line] of lines.entries()) {
+            let rect = line_bounding_box(line);
+            if (rect.top < page_top)
+                first_on_page = i + 1;
+            if (rect.bottom > bottom) {
+                cut_line = i;
+                break;
+            }
+        }
+        if (cut_line === -1)
+            return "next_page";
+        // no orphan lines at the end of the code block
+        cut_line = Math.min(cut_line, lines.length - MIN_LINES);
+        // no orphan lines at the start of the code block
+        if (cut_line - first_on_page < MIN_LINES || cut_line <= 0) {
+            if (DEBUG) console.info(`unable to cut code block at line ${cut_line} (min_lines: ${MIN_LINES})`, closest);
+            return "next_page";
+        }
+
+        let rect = line_bounding_box(lines[cut_line]);
+        let [node, at]: [Node, number] = lines[cut_line].start;
+        while (at === 0 && !node.previousSibling && node.parentNode && node.parentNode !== closest.node)
+            node = node.parentNode;
+        let cut = { tagName: node.nodeName, node, top: rect.top, bottom: rect.bottom, at };
+        if (TRACE) console.info(`cut code block at line ${cut_line}`, cut);
+        return cut;
+    }
+
+    /**
+     * Cut each cell of a table row taller than the page at the page bottom,
+     * the row is continued on the next page by a copy of the row with the rest of each cell.
+     */
+    function fix_row_overflow(closest: CutNode, page_top: number) : CutNode | NextPage | null {
+        let row = closest.node as HTMLTableRowElement;
+        let cells: (CutNode | null)[] = [];
+        let top = closest.bottom;
+        for (let cell of row.cells) {
+            let rect = cell.getBoundingClientRect();
+            let cut: CutNode | NextPage | null = null;
+            if (rect.bottom > expected_page_bottom)
+                cut = fix_overflow(cut_from_element(cell)!, page_top);
+            if (cut === "next_page")
+                cut = cell.firstChild && { tagName: cell.firstChild.nodeName, node: cell.firstChild, top: rect.top, bottom: rect.bottom, at: 0 };
+            if (cut)
+                top = Math.min(top, cut.top);
+            cells.push(cut);
+        }
+        if (cells.every(cut => !cut))
+            return null;
+        // nothing of the row is left on this page
+        if (top <= closest.top)
+            return "next_page";
+        let cut: CutNode = { tagName: row.tagName, node: row, top, bottom: closest.bottom, at: 0, cells };
+        if (TRACE) console.info(`cut table row`, cut);
+        return cut;
+    }
+
+    /** the cut before the row leaves less than min_rows rows of the table on one side */
+    function table_rows_apart(row: Node, page_top: number) : boolean {
+        let before = 0;
+        let started_on_page = true;
+        for (let previous = previous_element_sibling(row.previousSibling); previous; previous = previous_element_sibling(previous.previousSibling)) {
+            if (previous.getBoundingClientRect().top < page_top) {
+                started_on_page = false;
+                break;
+            }
+            before++;
+        }
+        let after = 1;
+        for (let next = next_element_sibling(row.nextSibling); next; next = next_element_sibling(next.nextSibling))
+            after++;
+        if (before === 0)
+            return false;
+        // too few rows go to the next page: rows of this page are moved with them
+        return (before < MIN_ROWS && started_on_page) || (after < MIN_ROWS && before >= MIN_ROWS);
+    }
+
+    /** first child of the table with the tag name (CAPTION, THEAD, TFOOT) */
+    function table_part(element: Node, tagName: string) : HTMLElement | null {
+        if (element instanceof HTMLTableElement) {
+            for (let child of element.children) {
+                if (child.tagName === tagName)
+                    return child as HTMLElement;
+            }
         }
         return null;
     }
 
+    function table_part_height(element: Node, tagName: string) : number {
+        let part = table_part(element, tagName);
+        return part ? part.getBoundingClientRect().height : 0;
+    }
+
+    /** move the content of the element after the cut into the copy, the parents of the cut node are copied */
+    function split_element(element: Node, cut: CutNode, copy: Node) {
+        let path: Node[] = [];
+        for (let node = cut.node.parentNode; node && node !== element; node = node.parentNode)
+            path.unshift(node);
+        let copies = [copy];
+        for (let node of path) {
+            let empty_el = copy_element_empty(node as HTMLElement);
+            copies[copies.length - 1].appendChild(empty_el);
+            copies.push(empty_el);
+        }
+        for (let i = copies.length - 1; i >= 0; i--) {
+            let node = i === path.length ? cut.node : path[i];
+            let after = node.nextSibling;
+            if (node === cut.node && cut.at > 0) {
+                let cut_text = node as Text;
+                copies[i].appendChild(document.createTextNode(cut_text.data.substring(cut.at)));
+                cut_text.data = cut.hyphen ? `${cut_text.data.substring(0, cut.at).replace(/\u00AD$/, "")}-` : cut_text.data.substring(0, cut.at);
+            }
+            else if (node === cut.node) {
+                copies[i].appendChild(node);
+            }
+            while (after) {
+                let next = after.nextSibling;
+                copies[i].appendChild(after);
+                after = next;
+            }
+        }
+    }
+
     function structure_top_height(stack: CutNode[], outer: CutNode, closest: CutNode) {
         let parents_top_height = 0;
 
@@ -429,22 +1166,230 @@ export default function paginate(options: {
             parents_top_height += parseFloat(style.marginTop!);
         }
         for (let brk of stack) {
+            if (brk !== closest && force_closest_tag_names.has(brk.tagName)) {
+                // copied code block padding and border
+                let style = window.getComputedStyle(brk.node as HTMLElement);
+                parents_top_height += parseFloat(style.paddingTop!) + parseFloat(style.borderTopWidth!);
+            }
             if (brk !== closest) {
                 let firstElement = next_element_sibling(brk.node.firstChild);
-                if (firstElement) {
-                    if (!first_page_element_no_margin_top(firstElement.tagName)) {
-                        let firstElementRect = firstElement.getBoundingClientRect();
-                        parents_top_height += Math.max(0, firstElementRect.top - brk.top);
-                    }
-                    let thead = table_thead(firstElement);
-                    if (thead)
-                        parents_top_height += thead.getBoundingClientRect().height;
+                if (firstElement && !first_page_element_no_margin_top(firstElement.tagName)) {
+                    let firstElementRect = firstElement.getBoundingClientRect();
+                    parents_top_height += Math.max(0, firstElementRect.top - brk.top);
                 }
+                // caption and head repeated on top of the split table
+                if (CONTINUED_CAPTION)
+                    parents_top_height += table_part_height(brk.node, "CAPTION");
+                parents_top_height += table_part_height(brk.node, "THEAD");
             }
         }
         return parents_top_height;
     }
 
+    /**
+     * Detach the notes of the footnotes sections (markdown-it-footnote) with their separator,
+     * each note keeps its number and goes with the first link to it.
+     */
+    function detach_footnotes() : { ref: HTMLElement, note: HTMLElement }[] {
+        let notes = new Map<string, HTMLElement>();
+        let sections = [...body.querySelectorAll<HTMLElement>(".footnotes")];
+        for (let section of sections) {
+            for (let list of section.querySelectorAll("ol")) {
+                let value = list.start;
+                for (let note of list.children) {
+                    if (note instanceof HTMLLIElement) {
+                        note.value = value++;
+                        if (note.id)
+                            notes.set(note.id, note);
+                    }
+                }
+            }
+            let separator = previous_element_sibling(section.previousSibling);
+            if (separator && separator.classList.contains("footnotes-sep"))
+                separator.parentNode!.removeChild(separator);
+            section.parentNode!.removeChild(section);
+        }
+        let refs: { ref: HTMLElement, note: HTMLElement }[] = [];
+        for (let ref of body.querySelectorAll<HTMLElement>('a[href^="#"]')) {
+            let id = ref.getAttribute("href")!.substring(1);
+            let note = notes.get(id);
+            if (note) {
+                refs.push({ ref, note });
+                notes.delete(id);
+            }
+        }
+        return refs;
+    }
+
+    function create_footnotes_area() : HTMLElement {
+        let area = document.createElement("DIV");
+        area.className = "page-footnotes";
+        let list = document.createElement("OL");
+        list.className = "footnotes-list";
+        area.appendChild(list);
+        return area;
+    }
+
+    /** notes referenced from the container, their height is measured in a footnotes area as wide as the container content */
+    function container_footnotes(container: HTMLElement, refs: { ref: HTMLElement, note: HTMLElement }[], content_height: number) : ContainerFootnotes {
+        let footnotes: ContainerFootnotes = { pending: [], carried: [], area_height: 0, max_height: content_height * MAX_FOOTNOTES_RATIO };
+        refs = refs.filter(({ ref }) => container.contains(ref));
+        if (!refs.length)
+            return footnotes;
+        let area = create_footnotes_area();
+        area.style.position = "static";
+        container.appendChild(area);
+        for (let { ref, note } of refs) {
+            area.firstElementChild!.appendChild(note);
+            let rect = ref.getBoundingClientRect();
+            footnotes.pending.push({ note, top: rect.top, bottom: rect.bottom, height: 0 });
+        }
+        let notes_height = 0;
+        for (let footnote of footnotes.pending) {
+            let style = window.getComputedStyle(footnote.note);
+            footnote.height = footnote.note.getBoundingClientRect().height + parseFloat(style.marginTop!) + parseFloat(style.marginBottom!);
+            notes_height += footnote.height;
+        }
+        footnotes.area_height = Math.max(0, area.getBoundingClientRect().height - notes_height);
+        container.removeChild(area);
+        return footnotes;
+    }
+
+    /** first notes that fit in the footnotes area, at least one */
+    function fit_footnotes(footnotes: ContainerFootnotes, queue: Footnote[]) : { notes: Footnote[], height: number } {
+        let notes: Footnote[] = [];
+        let height = footnotes.area_height;
+        for (let footnote of queue) {
+            if (notes.length && height + footnote.height > footnotes.max_height)
+                break;
+            notes.push(footnote);
+            height += footnote.height;
+        }
+        return { notes, height: notes.length ? height : 0 };
+    }
+
+    /** height reserved at the bottom of the page for the carried over notes and the notes referenced above the page bottom */
+    function reserve_footnotes(footnotes: ContainerFootnotes, page_bottom: number) : number {
+        let reserved = 0;
+        for (let pass = 0; pass < MAX_FOOTNOTES_PASSES; pass++) {
+            let referenced = footnotes.pending.filter(footnote => footnote.bottom <= page_bottom - reserved);
+            let { height } = fit_footnotes(footnotes, [...footnotes.carried, ...referenced]);
+            if (height <= reserved)
+                break;
+            reserved = height;
+        }
+        return reserved;
+    }
+
+    /** notes of the page cut at bottom (all the remaining notes for the last page), the notes that don't fit are carried over */
+    function take_footnotes(footnotes: ContainerFootnotes, bottom: number | null) : HTMLElement[] {
+        let referenced = footnotes.pending.filter(footnote => bottom === null || footnote.top < bottom);
+        footnotes.pending = footnotes.pending.filter(footnote => referenced.indexOf(footnote) === -1);
+        let queue = [...footnotes.carried, ...referenced];
+        let notes = bottom === null ? queue : fit_footnotes(footnotes, queue).notes;
+        footnotes.carried = queue.slice(notes.length);
+        return notes.map(footnote => footnote.note);
+    }
+
+    /**
+     * Detach the <watermark> elements of the body, their attributes are the watermark options
+     * and their content (text, image or SVG) is drawn on the pages.
+     * Invalid attributes throw before the pagination.
+     */
+    function detach_watermarks() : (Watermark & { content?: string })[] {
+        let watermarks: (Watermark & { content?: string })[] = [];
+        for (let element of [...body.querySelectorAll("watermark")]) {
+            watermarks.push(validate_watermark({
+                content: element.innerHTML,
+                layer: (element.getAttribute("layer") || undefined) as Watermark["layer"],
+                opacity: parse_watermark_number("opacity", element.getAttribute("opacity")),
+                rotation: parse_watermark_number("rotation", element.getAttribute("rotation")),
+                pages: element.getAttribute("pages") || undefined,
+            }));
+            element.parentNode!.removeChild(element);
+        }
+        return watermarks;
+    }
+
+    /** a watermark of the options or of the <watermark> attributes, invalid values throw */
+    function validate_watermark<T extends Watermark>(watermark: T) : T {
+        let { layer, opacity, rotation, pages } = watermark;
+        if (layer !== undefined && layer !== "behind" && layer !== "over")
+            throw new Error(`invalid watermark layer: ${layer}`);
+        if (opacity !== undefined && (typeof opacity !== "number" || !(opacity >= 0 && opacity <= 1)))
+            throw new Error(`invalid watermark opacity: ${opacity}`);
+        if (rotation !== undefined && (typeof rotation !== "number" || !isFinite(rotation)))
+            throw new Error(`invalid watermark rotation: ${rotation}`);
+        check_watermark_pages(pages);
+        return watermark;
+    }
+
+    function parse_watermark_number(name: string, value: string | null) : number | undefined {
+        if (!value)
+            return undefined;
+        if (!isFinite(+value))
+            throw new Error(`invalid watermark ${name}: ${value}`);
+        return +value;
+    }
+
+    const RX_PAGE_RANGE = /^(\d+)(?:-(\d*))?$/;
+    const PAGE_KEYWORDS = ["first", "last", "odd", "even"];
+    /** comma separated pages: "first", "last", "odd", "even", "3" or "2-5" or "2-" */
+    function check_watermark_pages(pages: string | undefined) {
+        if (!pages)
+            return;
+        for (let range of pages.split(",")) {
+            range = range.trim();
+            if (PAGE_KEYWORDS.indexOf(range) === -1 && !RX_PAGE_RANGE.test(range))
+                throw new Error(`invalid watermark pages: ${pages}`);
+        }
+    }
+
+    /** the page (position in the document from 1) is in the comma separated pages (validated with check_watermark_pages) */
+    function in_pages(pages: string | undefined, position: number, count: number) : boolean {
+        if (!pages)
+            return true;
+        return pages.split(",").some(range => {
+            range = range.trim();
+            if (range === "first")
+                return position === 1;
+            if (range === "last")
+                return position === count;
+            if (range === "odd" || range === "even")
+                return position % 2 === (range === "odd" ? 1 : 0);
+            let m = range.match(RX_PAGE_RANGE);
+            return !!m && position >= +m[1] && (m[2] === undefined ? position === +m[1] : !m[2] || position <= +m[2]);
+        });
+    }
+
+    function add_watermarks(pages: Page[], watermarks: (Watermark & { content?: string })[]) {
+        for (let [idx, { container }] of pages.entries()) {
+            for (let watermark of watermarks) {
+                if (!in_pages(watermark.pages, idx + 1, pages.length))
+                    continue;
+                let layer = document.createElement("DIV");
+                layer.className = `page-watermark page-watermark-${option(watermark.layer, "behind")}`;
+                let content: HTMLElement;
+                if (watermark.image) {
+                    content = document.createElement("IMG");
+                    content.setAttribute("src", watermark.image);
+                }
+                else {
+                    content = document.createElement("DIV");
+                    if (watermark.content !== undefined)
+                        content.innerHTML = watermark.content;
+                    else
+                        content.textContent = option(watermark.text, "");
+                    content.className = "page-watermark-text";
+                }
+                content.style.opacity = `${option(watermark.opacity, 0.15)}`;
+                content.style.transform = `rotate(${option(watermark.rotation, watermark.image ? 0 : -45)}deg)`;
+                layer.appendChild(content);
+                container.insertBefore(layer, container.firstChild);
+            }
+        }
+    }
+
     function create_containers() {
         let containers: {
             container: HTMLElement,
@@ -454,7 +1399,7 @@ export default function paginate(options: {
             paper_margin: { top: string, right: string, bottom: string, left: string },
             paper_orientation: NonNullable<typeof options.paper_orientation>,
             page?: number,
-            first: { page: number, num_pages: { num_pages: number }, header: HTMLElement | null, footer: HTMLElement | null },
+            first: { page: number, num_pages: { num_pages: number }, numbering: PageNumbering, header: HTMLElement | null, footer: HTMLElement | null, header_sides: Sides, footer_sides: Sides, footnotes: HTMLElement[], blank_before: boolean },
             cuts: CutPage[],
         }[] = [];
         let container: HTMLElement | null = null;
@@ -470,7 +1415,8 @@ export default function paginate(options: {
                 continue;
             if (!container && node instanceof Text && is_text_content_whitespace(node))
                 continue;
-            if (!container || tagName === "HEADER") {
+            // a header variant (side attribute) belongs to the current header
+            if (!container || (tagName === "HEADER" && !(node as HTMLElement).hasAttribute("side"))) {
                 let isHeader = tagName === "HEADER";
                 paper = option(isHeader ? parse_paper((node as HTMLElement).getAttribute("paper")) : undefined, paper);
                 paper_margin = option(isHeader ? parse_paper_margin((node as HTMLElement).getAttribute("paper-margin")) : undefined, paper_margin);
@@ -485,7 +1431,7 @@ export default function paginate(options: {
                 container.style.paddingRight = typeof paper_margin === "object" ? paper_margin.right : paper_margin;
                 container.style.paddingBottom = typeof paper_margin === "object" ? paper_margin.bottom : paper_margin;
                 container.style.paddingLeft = typeof paper_margin === "object" ? paper_margin.left : paper_margin;
-                let first = { page: -1, num_pages: { num_pages: 0 }, header: null, footer: null };
+                let first = { page: -1, numbering, num_pages: { num_pages: 0 }, header: null, footer: null, header_sides: {}, footer_sides: {}, footnotes: [], blank_before: false };
                 containers.push({ container, paper, paper_size, paper_str, paper_margin, paper_orientation, first, cuts: [] });
             }
             container.appendChild(node);
@@ -500,12 +1446,22 @@ export default function paginate(options: {
             if (footer && footer.parentNode)
                 footer.parentNode.removeChild(footer);
         }
+        for (let { header_sides, footer_sides } of [first, ...cuts]) {
+            for (let element of [header_sides.odd, header_sides.even, header_sides.first, footer_sides.odd, footer_sides.even, footer_sides.first]) {
+                if (element && element.parentNode)
+                    element.parentNode.removeChild(element);
+            }
+        }
         let last_page_element: Node | null = container.lastChild;
         let pages: Page[] = [];
         // cuts are applied in reverse order as a trick to support (move_height > content_height) cuts
-        for (let { page, num_pages, closest, outer, stack, header, footer } of cuts.reverse()) {
+        for (let { page, numbering, num_pages, closest, outer, stack, header, footer, header_sides, footer_sides, footnotes, blank_before } of cuts.reverse()) {
+            if (num_pages === first_num_pages && (numbered(header, header_sides) || numbered(footer, footer_sides)))
+                renumberable = false;
             // move nodes after outer into the page
-            let { container, insert_before } = create_page(page, num_pages.num_pages, header, footer);
+            let { container, insert_before } = create_page(page, numbering, pages_count(num_pages), page_side(page, false, header, header_sides), page_side(page, false, footer, footer_sides), footnotes);
+            if (blank_before)
+                create_page(page - 1, numbering, pages_count(num_pages), null, null, []);
             while (last_page_element && last_page_element !== outer.node) {
                 let p = last_page_element.previousSibling;
                 container.insertBefore(last_page_element, insert_before);
@@ -517,6 +1473,7 @@ export default function paginate(options: {
             }
             // copy structure
             let parent: Element = container;
+            let split_tables: [HTMLElement, HTMLElement][] = [];
             for (let [i, cut] of stack.entries()) {
                 let new_parent = parent;
                 let after = (cut !== outer) ? cut.node.nextSibling : null;
@@ -525,9 +1482,19 @@ export default function paginate(options: {
                     let empty_el = copy_element_empty(cut_node);
                     if (first_page_element_no_margin_top(empty_el.tagName))
                         empty_el.style.marginTop = "0px";
-                    let thead = table_thead(cut_node);
+                    if (CONTINUED_MARKER && force_closest_tag_names.has(empty_el.tagName))
+                        empty_el.setAttribute("data-continued", CONTINUED_MARKER);
+                    let caption = CONTINUED_CAPTION ? table_part(cut_node, "CAPTION") : null;
+                    if (caption) {
+                        let caption_el = clone_element(caption, []);
+                        caption_el.setAttribute("data-continued", CONTINUED_CAPTION);
+                        empty_el.appendChild(caption_el);
+                    }
+                    let thead = table_part(cut_node, "THEAD");
                     if (thead)
                         empty_el.appendChild(clone_element(thead, []));
+                    if (cut_node.tagName === "TABLE")
+                        split_tables.push([cut_node, empty_el]);
                     if (cut_node.tagName === "OL") {
                         let next_cut = stack[i + 1];
                         let li: Node | null = cut_node.firstChild;
@@ -547,9 +1514,23 @@ export default function paginate(options: {
                 else if (cut.at > 0) {
                     let cut_text = (cut.node as Text);
                     let cpy_text = document.createTextNode(cut_text.wholeText.substring(cut.at));
-                    cut_text.textContent = cut_text.wholeText.substring(0, cut.at);
+                    // the hyphen of a hyphenated word is only shown by the browser at a line break
+                    cut_text.textContent = cut.hyphen ? `${cut_text.wholeText.substring(0, cut.at).replace(/\u00AD$/, "")}-` : cut_text.wholeText.substring(0, cut.at);
                     new_parent.insertBefore(cpy_text, insert_before);
                 }
+                else if (cut.cells) {
+                    // the rest of each cell of the split row goes to a copy of the row
+                    let row = cut.node as HTMLTableRowElement;
+                    let row_el = copy_element_empty(row);
+                    for (let [j, cell] of [...row.cells].entries()) {
+                        let cell_el = copy_element_empty(cell);
+                        let cell_cut = cut.cells[j];
+                        if (cell_cut)
+                            split_element(cell, cell_cut, cell_el);
+                        row_el.appendChild(cell_el);
+                    }
+                    new_parent.insertBefore(row_el, insert_before);
+                }
                 else {
                     new_parent.insertBefore(cut.node, insert_before);
                     let cut_el = next_element_sibling(cut.node);
@@ -563,11 +1544,23 @@ export default function paginate(options: {
                     after = next;
                 }
             }
+            // the foot of a split table is repeated at the bottom of both parts
+            for (let [table, table_el] of split_tables) {
+                let tfoot = table_part(table, "TFOOT") || table_part(table_el, "TFOOT");
+                if (tfoot && !table_part(table, "TFOOT"))
+                    table.appendChild(clone_element(tfoot, []));
+                if (tfoot && !table_part(table_el, "TFOOT"))
+                    table_el.appendChild(clone_element(tfoot, []));
+            }
         }
         // first page
         {
+            if (first.num_pages === first_num_pages && (numbered(first.header, first.header_sides) || numbered(first.footer, first.footer_sides)))
+                renumberable = false;
             // move nodes after outer into the page
-            let { container, insert_before } = create_page(first.page, first.num_pages.num_pages, first.header, first.footer);
+            let { container, insert_before } = create_page(first.page, first.numbering, pages_count(first.num_pages), page_side(first.page, true, first.header, first.header_sides), page_side(first.page, true, first.footer, first.footer_sides), first.footnotes);
+            if (first.blank_before)
+                create_page(first.page - 1, first.numbering, pages_count(first.num_pages), null, null, []);
             while (last_page_element) {
                 let p = last_page_element.previousSibling;
                 container.insertBefore(last_page_element, insert_before);
@@ -578,17 +1571,26 @@ export default function paginate(options: {
         cuts.reverse()
         return pages.reverse();
 
-        function create_page(page: number, num_pages: number, header: HTMLElement | null, footer: HTMLElement | null) {
+        /** header or footer variant of the page side */
+        function page_side(page: number, is_first: boolean, element: HTMLElement | null, sides: Sides) : HTMLElement | null {
+            return (is_first && sides.first) || (page % 2 === 1 ? sides.odd : sides.even) || element;
+        }
+
+        function create_page(page: number, numbering: PageNumbering, num_pages: number, header: HTMLElement | null, footer: HTMLElement | null, footnotes: HTMLElement[]) {
             let page_num_str = `${page}`;
+            let label = page_label(page, numbering);
+            let side = page % 2 === 1 ? "odd" : "even";
 
             let container = document.createElement("DIV");
             container.className = "page";
             container.setAttribute("page", page_num_str);
+            container.setAttribute("page-label", label);
+            container.setAttribute("side", side);
             container.setAttribute("paper", paper_str);
             container.setAttribute("paper-orientation", paper_orientation);
 
             let variables = [
-                { rx: /{{\s*page\s*}}/, by: page_num_str },
+                { rx: /{{\s*page\s*}}/, by: escape_html(label) },
                 { rx: /{{\s*num_pages\s*}}/, by: `${num_pages}` },
             ];
             header = clone_element(header, variables);
@@ -601,9 +1603,21 @@ export default function paginate(options: {
                 footer.setAttribute("page", page_num_str);
                 container.appendChild(footer);
             }
+            if (footnotes.length) {
+                // notes area at the bottom of the page content, above the footer
+                let area = create_footnotes_area();
+                let mirror = MIRROR_MARGINS && side === "even";
+                area.style.left = mirror ? paper_margin.right : paper_margin.left;
+                area.style.right = mirror ? paper_margin.left : paper_margin.right;
+                area.style.bottom = paper_margin.bottom;
+                footnotes.forEach(note => area.firstElementChild!.appendChild(note));
+                container.appendChild(area);
+            }
 
             pages.push({
                 page,
+                label,
+                numbering,
                 paper: {
                     format: paper,
                     margin: paper_margin,
@@ -620,16 +1634,19 @@ export default function paginate(options: {
     }
     ///////////////
     // ALGO
-    {
+    function paginate_pass() : PaginateResult {
         performance.mark("paginate_start");
 
+        let refs = FOOTNOTES === "page" && PAGINATE ? detach_footnotes() : [];
+        WATERMARKS.forEach(validate_watermark);
+        let watermarks = PAGINATE ? [...WATERMARKS, ...detach_watermarks()] : [];
         let containers = create_containers();
         containers.forEach(({ container }) => body.appendChild(container));
 
         performance.mark("paginate_body_layout");
 
         let cut_counter = 0;
-        for (let { container, paper_size, paper_margin, paper_orientation, first, cuts } of containers) {
+        for (let [container_idx, { container, paper_size, paper_margin, paper_orientation, first, cuts }] of containers.entries()) {
             const margin_top = length_to_px(typeof paper_margin === "object" ? paper_margin.top : paper_margin);
             const margin_bottom = length_to_px(typeof paper_margin === "object" ? paper_margin.bottom : paper_margin);
             const page_height = length_to_px(paper_orientation === "portrait" ? paper_size.height : paper_size.width);
@@ -642,20 +1659,45 @@ export default function paginate(options: {
             }
 
             let top = container.getBoundingClientRect().top;
+            let footnotes = container_footnotes(container, refs, content_height);
 
             expected_page_bottom = top + content_height + margin_top;
+            let footnotes_height = reserve_footnotes(footnotes, expected_page_bottom);
+            expected_page_bottom -= footnotes_height;
             let stack = next_cut_stack(container.firstElementChild);
+            // first page, also for a container without cuts
+            {
+                page++;
+                num_pages.num_pages++;
+                // a new container (<header> with a paper or a page) starts on the side of its first element too
+                let side = container_idx > 0 ? container_side(container) : null;
+                let blank_before = !!side && (page % 2 === 1) !== (side === "odd");
+                if (side && num_pages === first_num_pages)
+                    renumberable = false;
+                if (blank_before) {
+                    page++;
+                    num_pages.num_pages++;
+                }
+                Object.assign(first, { page, numbering, num_pages, header, footer, header_sides, footer_sides, blank_before });
+            }
             while (stack.length) {
                 if (TRACE) console.info("stack raw  ", stack);
                 let outer = stack[0];
                 let closest = stack[stack.length - 1];
                 let original_closest = { ...closest };
+                let page_top = expected_page_bottom + footnotes_height - content_height;
                 cut_elements.add(original_closest.node);
+                let forced = (force_cut_tag_names.has(original_closest.tagName) || original_closest.node instanceof HTMLElement && break_between(original_closest.node) === "force")
+                    && original_closest.bottom <= expected_page_bottom;
+                let moved_from: Node | null = null;
 
                 // find the real closest node with consideration of inline nodes (span, b, #text)
                 // this assume white-space: normal to work correctly
                 while (closest !== outer) {
-                    closest = stack[stack.length - 1] = fix_weird_cut_positions(closest, expected_page_bottom);
+                    let weird = closest;
+                    closest = stack[stack.length - 1] = fix_weird_cut_positions(closest, expected_page_bottom, page_top);
+                    if (closest !== weird)
+                        moved_from = moved_from || weird.node;
                     let previous = closest.node.previousSibling;
                     if (previous instanceof Text && is_text_content_whitespace(previous)) {
                         closest.node = previous;
@@ -689,7 +1731,10 @@ export default function paginate(options: {
                     closest = stack[stack.length - 1];
                 }
                 if (closest === outer) {
-                    closest = outer = stack[0] = fix_weird_cut_positions(closest, expected_page_bottom);
+                    let weird = closest;
+                    closest = outer = stack[0] = fix_weird_cut_positions(closest, expected_page_bottom, page_top);
+                    if (closest !== weird)
+                        moved_from = moved_from || weird.node;
                 }
                 if (TRACE) console.info("stack fixed", stack);
 
@@ -699,13 +1744,30 @@ export default function paginate(options: {
                 let overflow = closest.bottom - next_expected_page_bottom;
                 let force_next = false;
 
+                if (closest.node !== original_closest.node && force_closest_tag_names.has(original_closest.tagName)) {
+                    // the cut was moved before the code block (ie. to keep it with its heading),
+                    // the code block must still be cutable on the next page
+                    cut_elements.delete(original_closest.node);
+                }
+
                 if (overflow > 0 && overcut < MIN_HEIGHT && MIN_HEIGHT < content_height) {
                     // handle the overflow in the next page
                     cut_elements.delete(original_closest.node);
                 } else if (/*overcut > MAX_OVERCUT ||*/ overflow > 0) {
                     // handle overflow or very big overcut
-                    let closest_text = fix_overflow(closest);
-                    if (closest_text) {
+                    let is_pre = force_closest_tag_names.has(closest.tagName);
+                    let closest_text = is_pre ? fix_pre_overflow(closest, page_top)
+                        : closest.tagName === "TR" ? fix_row_overflow(closest, page_top)
+                        : fix_overflow(closest, page_top);
+                    if (closest_text && closest_text !== "next_page" && closest_text.cells) {
+                        // the row is split, it stays the closest node
+                        if (closest_text.top > closest.top)
+                            cut_elements.delete(original_closest.node);
+                        closest = stack[stack.length - 1] = closest_text;
+                        parents_top_height = structure_top_height(stack, outer, closest);
+                        next_expected_page_bottom = closest.top + content_height - parents_top_height;
+                    }
+                    else if (closest_text && closest_text !== "next_page") {
                         if (closest_text.top > closest.top)
                             cut_elements.delete(original_closest.node);
                         let node = closest_text.node.parentNode;
@@ -726,20 +1788,41 @@ export default function paginate(options: {
                         parents_top_height = structure_top_height(stack, outer, closest);
                         next_expected_page_bottom = closest.top + content_height - parents_top_height;
                     }
+                    else if (closest_text === "next_page" && !moved_elements.has(closest.node)) {
+                        // not enough lines to cut the code block or paragraph on this page, handle the overflow in the next page
+                        moved_elements.add(closest.node);
+                        cut_elements.delete(original_closest.node);
+                    }
                     else {
                         console.warn(`unable to fix overflow ${overflow}`, closest);
                         force_next = true;
                     }
                 }
 
+                // notes of the page that ends at this cut
+                (cuts.length ? cuts[cuts.length - 1] : first).footnotes = take_footnotes(footnotes, closest.top);
+
                 // page count
-                if (cuts.length === 0) {
+                page++;
+                num_pages.num_pages++;
+                let start = closest.tagName === "#spaces" ? next_element_sibling(closest.node) : closest.node;
+                let side = start instanceof HTMLElement ? break_side(start) : null;
+                let blank_before = !!side && (page % 2 === 1) !== (side === "odd");
+                // the blank page depends on the first page parity
+                if (side && num_pages === first_num_pages)
+                    renumberable = false;
+                if (blank_before) {
                     page++;
                     num_pages.num_pages++;
-                    Object.assign(first, { page, num_pages, header, footer });
                 }
-                page++;
-                num_pages.num_pages++;
+
+                // the cut starts the page, a clipped element is kept on it
+                if (force_next)
+                    diagnostics.push({ type: "clipped", page, element: describe_element(closest.node), overflow_mm: Math.round(overflow / unit.mm) });
+                if (forced)
+                    diagnostics.push({ type: "forced_break", page, element: describe_element(original_closest.node) });
+                if (moved_from)
+                    diagnostics.push({ type: "moved_cut", page, element: describe_element(closest.node), from: describe_element(moved_from) });
 
                 if (DEBUG) console.info(`idx=${cut_counter} page=${page}
 ${Math.round(expected_page_bottom)} -> ${Math.round(next_expected_page_bottom)} = ${Math.round(closest.top)} + ${Math.round(content_height)} - ${Math.round(parents_top_height)}
@@ -755,18 +1838,26 @@ stack:
                     stack,
                     parents_top_height,
                     page,
+                    numbering,
                     num_pages,
                     header,
                     footer,
+                    header_sides,
+                    footer_sides,
+                    footnotes: [],
+                    blank_before,
                     top,
                     expected_page_bottom,
                     next_expected_page_bottom,
                 };
                 cuts.push(cut_page);
                 cut_counter++;
-                expected_page_bottom = next_expected_page_bottom;
+                footnotes_height = reserve_footnotes(footnotes, next_expected_page_bottom);
+                expected_page_bottom = next_expected_page_bottom - footnotes_height;
                 stack = next_cut_stack(force_next ? next_element_sibling(outer.node) : outer.node);
             }
+            // the last page gets the remaining notes
+            (cuts.length ? cuts[cuts.length - 1] : first).footnotes = take_footnotes(footnotes, null);
         }
 
         performance.mark("paginate_compute_cuts");
@@ -803,6 +1894,13 @@ stack:
     page-break-after: always;
     page-break-inside: avoid;
 }`;
+                if (MIRROR_MARGINS) {
+                    css += `
+.page[paper=${c.paper_str}][paper-orientation=${c.paper_orientation}][side=even] {
+    padding-right: ${c.paper_margin.left};
+    padding-left: ${c.paper_margin.right};
+}`;
+                }
                 // commit pages
                 pages.forEach(page => body.appendChild(page.container));
                 body.className += " pages";
@@ -811,10 +1909,16 @@ stack:
                 ret.push(...pages);
             }
         }
+        resolve_running_variables(ret);
+        if (PAGINATE)
+            orphaned_headings(ret);
+        add_watermarks(ret, watermarks);
+
         let style = document.createElement("style");
         style.type = "text/css";
         style.textContent = css;
         document.head!.appendChild(style);
+        pages_style = style;
 
         performance.mark("paginate_end");
 
@@ -823,7 +1927,42 @@ stack:
         performance.measure("paginate_compute-cuts", "paginate_body_layout", "paginate_compute_cuts");
         performance.measure("paginate_apply-cuts", "paginate_compute_cuts", "paginate_end");
 
-        return ret;
+        return Object.assign(ret, { diagnostics, first_numbering_pages: first_num_pages.num_pages, renumberable });
     }
 
+    if (!PAGINATE)
+        return paginate_pass();
+    let has_toc = !!TOC_SELECTOR && !!body.querySelector(TOC_SELECTOR);
+    let has_page_refs = prepare_page_refs();
+    if (!has_toc && !has_page_refs)
+        return paginate_pass();
+    if (has_toc)
+        prepare_toc();
+
+    // page numbers (table of contents, cross references) are laid out with placeholders,
+    // if the real page numbers change their height, the body is restored and paginated again
+    let page_numbers = new Map<string, string>();
+    let body_class = body.className;
+    let snapshot = [...body.childNodes].map(node => node.cloneNode(true));
+    let ret: PaginateResult = Object.assign([], { diagnostics, first_numbering_pages: 0, renumberable: false });
+    for (let pass = 0; pass < MAX_PAGE_NUMBERS_PASSES; pass++) {
+        if (pass > 0) {
+            if (DEBUG) console.info(`page numbers height changed, pagination pass ${pass + 1}`);
+            while (body.firstChild)
+                body.removeChild(body.firstChild);
+            snapshot.forEach(node => body.appendChild(node.cloneNode(true)));
+            body.className = body_class;
+            let style = pages_style as HTMLStyleElement | null;
+            if (style && style.parentNode)
+                style.parentNode.removeChild(style);
+            reset_context();
+        }
+        prepare_page_numbers(page_numbers);
+        ret = paginate_pass();
+        if (!fill_page_numbers(page_numbers))
+            break;
+    }
+    // the table of contents and the cross references show page numbers
+    ret.renumberable = false;
+    return ret;
 }
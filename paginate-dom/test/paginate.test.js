@@ -0,0 +1,430 @@
+const assert = require('assert');
+const {test} = require('node:test');
+const {JSDOM} = require('jsdom');
+
+const NODE_GLOBALS = new Set(Object.getOwnPropertyNames(global));
+
+/** line height of the text layout */
+const LINE = 20;
+/** words of a line of the text layout (outside of code blocks) */
+const LINE_WORDS = 4;
+const NO_HEIGHT_TAG_NAMES = new Set(["HEADER", "FOOTER", "STYLE", "SCRIPT", "WATERMARK", "HR", "BR"]);
+const INLINE_TAG_NAMES = new Set(["SPAN", "A", "B", "I", "EM", "STRONG", "CODE", "SUP", "SUB", "BR"]);
+
+function rect(top, bottom) {
+    return { top, bottom, left: 0, right: 100, width: 100, height: bottom - top, x: 0, y: top };
+}
+
+/**
+ * Text layout of the jsdom window: block elements are stacked, table cells are side by side and
+ * text lines are LINE px high (a line per code block line or LINE_WORDS words), margins are 0.
+ * Elements and text ranges are measured on the current document.
+ */
+function text_layout(window) {
+    let { document } = window;
+    function layout() {
+        let elements = new Map();
+        let chars = new Map();
+        let y = 0;
+        function length(value) {
+            let m = `${value}`.match(/^(\d+(?:\.\d+)?)(px|mm|cm)$/);
+            return m ? +m[1] * { px: 1, mm: 96 / 25.4, cm: 96 / 2.54 }[m[2]] : 0;
+        }
+        /** inline content of the block: a new line per \n of a code block or after LINE_WORDS words */
+        function inline(nodes, pre) {
+            let line = -1;
+            let words = LINE_WORDS;
+            let line_feed = pre;
+            let new_line = () => { line++; words = 0; line_feed = false; };
+            function flow(node) {
+                if (node.nodeType === 3) {
+                    let tops = [];
+                    for (let i = 0; i < node.data.length; i++) {
+                        let c = node.data[i];
+                        if (line_feed)
+                            new_line();
+                        if (!pre && /\S/.test(c) && (i === 0 || /\s/.test(node.data[i - 1]))) {
+                            if (words === LINE_WORDS)
+                                new_line();
+                            words++;
+                        }
+                        tops.push(/\S/.test(c) || pre ? y + line * LINE : null);
+                        if (pre && c === "\n")
+                            line_feed = true;
+                    }
+                    chars.set(node, tops);
+                }
+                else if (node.nodeType === 1) {
+                    let top = y + Math.max(0, line) * LINE;
+                    if (node.tagName === "BR")
+                        words = LINE_WORDS;
+                    node.childNodes.forEach(flow);
+                    elements.set(node, rect(top, y + (line + 1) * LINE));
+                }
+            }
+            nodes.forEach(flow);
+            y += (line + 1) * LINE;
+        }
+        function block(element, pre) {
+            let top = y;
+            pre = pre || element.tagName === "PRE";
+            let style = element.style;
+            if (NO_HEIGHT_TAG_NAMES.has(element.tagName) || style.display === "none" || style.position === "absolute") {
+                elements.set(element, rect(y, y));
+                element.querySelectorAll("*").forEach(child => elements.set(child, rect(y, y)));
+                return;
+            }
+            if (element.tagName === "IMG") {
+                y += +element.getAttribute("height") || 0;
+                elements.set(element, rect(top, y));
+                return;
+            }
+            y += length(style.paddingTop);
+            if (element.tagName === "TR") {
+                let bottom = y;
+                for (let cell of element.children) {
+                    let cell_top = y;
+                    block(cell, pre);
+                    bottom = Math.max(bottom, y);
+                    y = cell_top;
+                }
+                y = bottom;
+            }
+            else {
+                let run = [];
+                for (let child of [...element.childNodes, null]) {
+                    if (child && (child.nodeType === 3 || (child.nodeType === 1 && INLINE_TAG_NAMES.has(child.tagName)))) {
+                        run.push(child);
+                        continue;
+                    }
+                    if (run.some(node => node.nodeType === 1 || /\S/.test(node.data) || (pre && node.data)))
+                        inline(run, pre);
+                    run = [];
+                    if (child && child.nodeType === 1)
+                        block(child, pre);
+                }
+            }
+            y += length(style.paddingBottom);
+            elements.set(element, rect(top, y));
+        }
+        block(document.body, false);
+        return { elements, chars };
+    }
+    /** char tops of the text nodes of the range */
+    function range_tops(range) {
+        let { chars } = layout();
+        let tops = [];
+        let walker = document.createTreeWalker(range.commonAncestorContainer.nodeType === 3 ? range.commonAncestorContainer.parentNode : range.commonAncestorContainer, window.NodeFilter.SHOW_TEXT);
+        for (let text = walker.nextNode(); text; text = walker.nextNode()) {
+            if (!range.intersectsNode(text))
+                continue;
+            let start = text === range.startContainer ? range.startOffset : 0;
+            let end = text === range.endContainer ? range.endOffset : text.data.length;
+            tops.push(...(chars.get(text) || []).slice(start, end).filter(top => top !== null));
+        }
+        return tops;
+    }
+    window.Element.prototype.getBoundingClientRect = function () {
+        return layout().elements.get(this) || rect(0, 0);
+    };
+    window.Range.prototype.getBoundingClientRect = function () {
+        let tops = range_tops(this);
+        return tops.length ? rect(Math.min(...tops), Math.max(...tops) + LINE) : rect(0, 0);
+    };
+    window.Range.prototype.getClientRects = function () {
+        return [...new Set(range_tops(this))].map(top => rect(top, top + LINE));
+    };
+    // jsdom has no default styles: inline elements and 0px lengths
+    let getComputedStyle = window.getComputedStyle;
+    window.getComputedStyle = function (element) {
+        let style = getComputedStyle.call(window, element);
+        return new Proxy(style, {
+            get(target, key) {
+                let value = target[key];
+                if (typeof value === "function")
+                    return value.bind(target);
+                if (value === "" && key === "display" && INLINE_TAG_NAMES.has(element.tagName))
+                    return "inline";
+                if (value === "" && /^(margin|padding|border)/.test(key))
+                    return "0px";
+                return value;
+            },
+        });
+    };
+}
+
+/** paginate the body html in a new jsdom window, without a layout the pages are cut by the forced breaks only */
+function paginate_html(body, options = {}, layout = null) {
+    let dom = new JSDOM(`<!DOCTYPE html><html><head><title>Guide</title></head><body>${body}</body></html>`, { url: "http://localhost/", pretendToBeVisual: true });
+    if (layout)
+        layout(dom.window);
+    global.window = dom.window;
+    for (let name of Object.getOwnPropertyNames(dom.window)) {
+        if (!NODE_GLOBALS.has(name))
+            global[name] = dom.window[name];
+    }
+    return require('../dist/index.js').default(options);
+}
+
+/** paginate the body html with the text layout on pages of 10 lines */
+function paginate_lines(body, options = {}) {
+    return paginate_html(body, { paper: { width: "100px", height: `${10 * LINE}px` }, paper_margin: "0px", min_height: "0px", ...options }, text_layout);
+}
+
+function pages_html(count) {
+    let html = "";
+    for (let i = 1; i <= count; i++)
+        html += `${i > 1 ? "<hr>" : ""}<p>page ${i}</p>`;
+    return html;
+}
+
+function lines(prefix, count) {
+    let text = [];
+    for (let i = 1; i <= count; i++)
+        text.push(`${prefix}${i}`);
+    return text;
+}
+
+/** text of the elements of each page (pages text without the headers and footers if no selector) */
+function pages_text(pages, selector) {
+    return pages.map(page => [...page.container.querySelectorAll(selector)].map(element => element.textContent));
+}
+
+/** lines of the code blocks of each page */
+function pre_lines(pages) {
+    return pages.map(page => [...page.container.querySelectorAll("pre")].map(pre => pre.textContent).join("").split("\n").filter(line => line));
+}
+
+test("code blocks are cut between lines", () => {
+    let pages = paginate_lines(`<p>intro</p><pre>${lines("line ", 14).join("\n")}</pre>`);
+    assert.deepStrictEqual(pre_lines(pages), [lines("line ", 9), lines("line ", 14).slice(9)]);
+});
+
+test("code blocks keep min_lines lines on each side of the cut", () => {
+    let paragraphs = (count) => lines("p", count).map(text => `<p>${text}</p>`).join("");
+    let code = (count) => `<pre>${lines("line ", count).join("\n")}</pre>`;
+    assert.deepStrictEqual(pre_lines(paginate_lines(`${paragraphs(7)}${code(12)}`, { min_lines: 3 })), [lines("line ", 3), lines("line ", 12).slice(3)]);
+    // not enough lines on the first page: the code block starts on the next page
+    assert.deepStrictEqual(pre_lines(paginate_lines(`${paragraphs(7)}${code(12)}`, { min_lines: 4 })), [[], lines("line ", 8), lines("line ", 12).slice(8)]);
+    // not enough lines on the next page: the cut is moved up
+    assert.deepStrictEqual(pre_lines(paginate_lines(`${paragraphs(2)}${code(11)}`, { min_lines: 4 })), [lines("line ", 7), lines("line ", 11).slice(7)]);
+});
+
+test("code block lines elements are moved, not copied", () => {
+    let code = lines("line ", 12).map(text => `<span class="line">${text}</span>`).join("\n");
+    let pages = paginate_lines(`<pre><code>${code}</code></pre>`, { continued_marker: "(continued)" });
+    assert.deepStrictEqual(pages_text(pages, ".line"), [lines("line ", 10), lines("line ", 12).slice(10)]);
+    assert.strictEqual(pages[0].container.querySelector("pre").hasAttribute("data-continued"), false);
+    assert.strictEqual(pages[1].container.querySelector("pre").getAttribute("data-continued"), "(continued)");
+});
+
+test("running head, title and date placeholders", () => {
+    let pages = paginate_html(`<header>{{ title }} - {{ section.h1 }} / {{ section.h2 }} - {{ date }}</header><h1>One</h1><h2>A</h2><h2>B</h2><p>b</p><h1>Two &amp; three</h1><p>c</p>`, { date: "2019-05-04", force_cut_tag_names: ["H1"] });
+    assert.deepStrictEqual(pages.map(page => page.header.textContent), ["Guide - One / B - 2019-05-04", "Guide - Two & three /  - 2019-05-04"]);
+});
+
+test("title option and page placeholders", () => {
+    let pages = paginate_html(`<footer>{{ title }}: {{ page }} / {{ num_pages }}</footer>${pages_html(2)}`, { title: "<Manual>" });
+    assert.deepStrictEqual(pages.map(page => page.footer.textContent), ["<Manual>: 1 / 2", "<Manual>: 2 / 2"]);
+});
+
+test("table of contents links get a dot leader and the target page number", () => {
+    let pages = paginate_html(`<div class="table-of-contents"><ul><li><a href="#one">One</a></li><li><a href="#two%20b">Two</a></li></ul></div><h2 id="one">One</h2><h2 id="two b">Two</h2>`);
+    let links = [...pages[0].container.querySelectorAll(".table-of-contents a")];
+    assert.deepStrictEqual(links.map(link => [...link.children].map(span => span.className)), [["toc-title", "toc-leader", "toc-page"], ["toc-title", "toc-leader", "toc-page"]]);
+    assert.deepStrictEqual(links.map(link => [link.querySelector(".toc-title").textContent, link.querySelector(".toc-page").textContent]), [["One", "2"], ["Two", "3"]]);
+    assert.strictEqual(pages.renumberable, false);
+});
+
+test("page cross references", () => {
+    let pages = paginate_html(`<p>see page {{ ref:#details }}</p><h2 id="details">Details</h2><pre>{{ ref:#details }}</pre>`);
+    let ref = pages[0].container.querySelector("a.page-ref");
+    assert.strictEqual(ref.getAttribute("href"), "#details");
+    assert.strictEqual(ref.textContent, "2");
+    assert.strictEqual(pages[1].container.querySelector("pre").textContent, "{{ ref:#details }}");
+});
+
+test("paragraphs are cut at a line start", () => {
+    let words = lines("w", 48);
+    let pages = paginate_lines(`<p>${words.join(" ")}</p>`, { widows: 1, orphans: 1 });
+    assert.deepStrictEqual(pages_text(pages, "p").map(texts => texts.join("").trim().split(/\s+/)), [words.slice(0, 40), words.slice(40)]);
+});
+
+/** lines of the .text paragraphs of each page */
+function text_lines(pages) {
+    return pages.map(page => [...page.container.querySelectorAll(".text")].reduce((count, p) => count + p.textContent.trim().split(/\s+/).filter(word => word).length / LINE_WORDS, 0));
+}
+
+function paragraphs_html(count, attributes = "") {
+    return `${lines("p", count).map(text => `<p>${text}</p>`).join("")}<p class="text"${attributes}>${lines("w", 11 * LINE_WORDS).join(" ")}</p>`;
+}
+
+test("widows and orphans", () => {
+    assert.deepStrictEqual(text_lines(paginate_lines(paragraphs_html(3))), [7, 4]);
+    // 4 lines go to the next page instead of 5
+    assert.deepStrictEqual(text_lines(paginate_lines(paragraphs_html(3), { widows: 5 })), [6, 5]);
+    // only 2 lines fit on the first page: the paragraph starts on the next page
+    assert.deepStrictEqual(text_lines(paginate_lines(paragraphs_html(8))), [2, 9]);
+    assert.deepStrictEqual(text_lines(paginate_lines(paragraphs_html(8), { orphans: 3 })), [0, 10, 1]);
+});
+
+test("widows and orphans of the CSS of the paragraph", () => {
+    assert.deepStrictEqual(text_lines(paginate_lines(paragraphs_html(3, ' style="widows: 5"'))), [6, 5]);
+    assert.deepStrictEqual(text_lines(paginate_lines(paragraphs_html(8, ' style="orphans: 3"'))), [0, 10, 1]);
+});
+
+test("CSS break-before and break-after", () => {
+    let pages = paginate_html(`<p>a</p><p style="break-before: page">b</p><p style="page-break-after: always">c</p><p>d</p>`, { force_cut_tag_names: [] });
+    assert.deepStrictEqual(pages_text(pages, "p"), [["a"], ["b", "c"], ["d"]]);
+});
+
+test(".page-break breaks after itself", () => {
+    let pages = paginate_html(`<p>a</p><div class="page-break"></div><p>b</p>`);
+    assert.strictEqual(pages.length, 2);
+    assert.ok(pages[0].container.querySelector(".page-break"));
+    assert.strictEqual(pages[1].container.querySelector("p").textContent, "b");
+});
+
+test(".page-break as the last descendant of the previous element", () => {
+    let pages = paginate_html(`<section><p>a</p><div><div class="page-break"></div></div></section><p>b</p>`);
+    assert.strictEqual(pages.length, 2);
+    assert.strictEqual(pages[1].container.querySelector("p").textContent, "b");
+});
+
+test("CSS break-inside: avoid keeps the element on one page", () => {
+    let pages = paginate_lines(`${lines("p", 7).map(text => `<p>${text}</p>`).join("")}<div class="keep" style="break-inside: avoid"><p>a</p><p>b</p><p>c</p><p>d</p></div>`);
+    assert.deepStrictEqual(pages_text(pages, ".keep p"), [[], ["a", "b", "c", "d"]]);
+});
+
+function table_html(rows, { caption = "", thead = "<thead><tr><th>head</th></tr></thead>", tfoot = "" } = {}) {
+    return `<table>${caption}${thead}<tbody>${lines("row ", rows).map(text => `<tr><td>${text}</td></tr>`).join("")}</tbody>${tfoot}</table>`;
+}
+
+test("split tables repeat their head and foot", () => {
+    let pages = paginate_lines(table_html(12, { tfoot: "<tfoot><tr><td>foot</td></tr></tfoot>" }));
+    assert.deepStrictEqual(pages_text(pages, "thead td, thead th"), [["head"], ["head"]]);
+    assert.deepStrictEqual(pages_text(pages, "tfoot td"), [["foot"], ["foot"]]);
+    assert.deepStrictEqual(pages_text(pages, "tbody td"), [lines("row ", 8), lines("row ", 12).slice(8)]);
+});
+
+test("split tables repeat their caption with continued_caption", () => {
+    let pages = paginate_lines(table_html(12, { caption: "<caption>Sizes</caption>" }), { continued_caption: "(continued)" });
+    assert.deepStrictEqual(pages_text(pages, "caption"), [["Sizes"], ["Sizes"]]);
+    assert.strictEqual(pages[1].container.querySelector("caption").getAttribute("data-continued"), "(continued)");
+});
+
+test("tables keep min_rows rows on each side of the cut", () => {
+    let paragraphs = (count) => lines("p", count).map(text => `<p>${text}</p>`).join("");
+    assert.deepStrictEqual(pages_text(paginate_lines(`${paragraphs(3)}${table_html(8)}`), "tbody td"), [lines("row ", 6), lines("row ", 8).slice(6)]);
+    // 2 rows fit on the first page: the table starts on the next page
+    assert.deepStrictEqual(pages_text(paginate_lines(`${paragraphs(7)}${table_html(8)}`, { min_rows: 3 }), "tbody td"), [[], lines("row ", 8)]);
+    // 2 rows go to the next page: a row of the first page goes with them
+    assert.deepStrictEqual(pages_text(paginate_lines(`${paragraphs(3)}${table_html(8)}`, { min_rows: 3 }), "tbody td"), [lines("row ", 5), lines("row ", 8).slice(5)]);
+});
+
+test("rows taller than a page are split between the cells lines", () => {
+    let cell = (count) => `<td>${lines("w", count * LINE_WORDS).join(" ")}</td>`;
+    let pages = paginate_lines(`<table><tbody><tr>${cell(1)}${cell(1)}</tr><tr>${cell(14)}${cell(4)}</tr></tbody></table>`, { min_rows: 1, widows: 1, orphans: 1 });
+    let cell_lines = pages.map(page => [...page.container.querySelectorAll("td")].map(td => td.textContent.trim() ? td.textContent.trim().split(/\s+/).length / LINE_WORDS : 0));
+    // the second row is continued on the next page by a copy of the row with the rest of each cell
+    assert.deepStrictEqual(cell_lines, [[1, 1, 9, 4], [5, 0]]);
+});
+
+function footnotes_html(paragraphs) {
+    let notes = paragraphs.map((_, i) => `<li id="fn${i + 1}" class="footnote-item"><p>note ${i + 1}</p></li>`).join("");
+    return `${paragraphs.join("")}<hr class="footnotes-sep"><section class="footnotes"><ol class="footnotes-list">${notes}</ol></section>`;
+}
+
+test("page footnotes go to the bottom of the page of their reference", () => {
+    let ref = (i) => `<sup class="footnote-ref"><a href="#fn${i}">[${i}]</a></sup>`;
+    let paragraphs = [`<p>a ${ref(1)}</p>`, ...lines("p", 8).map(text => `<p>${text}</p>`), `<p>b ${ref(2)}</p>`];
+    let pages = paginate_lines(footnotes_html(paragraphs), { footnotes: "page" });
+    assert.deepStrictEqual(pages_text(pages, ".page-footnotes li"), [["note 1"], ["note 2"]]);
+    assert.deepStrictEqual(pages.map(page => page.container.querySelector(".page-footnotes li").value), [1, 2]);
+    assert.strictEqual(pages[0].container.querySelector(".footnotes"), null);
+    // the first page is cut before the paragraph that doesn't fit above the note
+    assert.deepStrictEqual(pages_text(pages, "body > .page > p").map(texts => texts.length), [8, 2]);
+});
+
+test("end footnotes are kept", () => {
+    let pages = paginate_html(footnotes_html([`<p>a <sup class="footnote-ref"><a href="#fn1">[1]</a></sup></p>`]), { force_cut_tag_names: [] });
+    assert.strictEqual(pages[0].container.querySelector(".page-footnotes"), null);
+    assert.deepStrictEqual(pages_text(pages, ".footnotes li"), [["note 1"]]);
+});
+
+test("odd page of the first element of a new paper", () => {
+    let pages = paginate_html(`<p>a</p><header paper="A5"></header><h1>b</h1>`, { odd_page_tag_names: ["H1"] });
+    assert.deepStrictEqual(pages.map(page => page.page), [1, 2, 3]);
+    assert.strictEqual(pages[1].container.querySelector("p, h1"), null);
+    assert.strictEqual(pages[2].container.querySelector("h1").textContent, "b");
+});
+
+test("odd page tag names start on an odd page", () => {
+    let pages = paginate_html(`<h1>a</h1><p>b</p><h1>c</h1><p>d</p><h1>e</h1>`, { odd_page_tag_names: ["H1"], force_cut_tag_names: ["H1"] });
+    assert.deepStrictEqual(pages_text(pages, "h1"), [["a"], [], ["c"], [], ["e"]]);
+    assert.strictEqual(pages.renumberable, false);
+});
+
+test("odd, even and first page header variants", () => {
+    let pages = paginate_html(`<header>all</header><header side="odd">odd {{ page }}</header><header side="even">even {{ page }}</header><header side="first">first</header>${pages_html(3)}`);
+    assert.deepStrictEqual(pages.map(page => page.header.textContent), ["first", "even 2", "odd 3"]);
+    assert.throws(() => paginate_html(`<header side="left">left</header>${pages_html(2)}`), /^Error: invalid side: left$/);
+});
+
+test("mirror margins swap the left and right margins of the even pages", () => {
+    let pages = paginate_html(pages_html(2), { mirror_margins: true, paper_margin: { top: "1cm", right: "2cm", bottom: "1cm", left: "3cm" } });
+    assert.deepStrictEqual(pages.map(page => page.container.getAttribute("side")), ["odd", "even"]);
+    let css = document.head.querySelector("style").textContent;
+    assert.ok(/\[side=even\] {\s*padding-right: 3cm;\s*padding-left: 2cm;\s*}/.test(css), css);
+    assert.strictEqual(pages.renumberable, false);
+});
+
+test("page labels: roman numbering", () => {
+    let pages = paginate_html(`<header page-format="lower-roman"></header>${pages_html(14)}`);
+    assert.deepStrictEqual(pages.map(page => page.label), ["i", "ii", "iii", "iv", "v", "vi", "vii", "viii", "ix", "x", "xi", "xii", "xiii", "xiv"]);
+});
+
+test("page labels: upper roman numbering with a prefix", () => {
+    let pages = paginate_html(`<header page="1999" page-format="upper-roman" page-prefix="p. "></header>${pages_html(2)}`);
+    assert.deepStrictEqual(pages.map(page => page.label), ["p. MCMXCIX", "p. MM"]);
+});
+
+test("page labels: alpha numbering after z", () => {
+    let pages = paginate_html(`<header page="25" page-format="lower-alpha"></header>${pages_html(4)}`);
+    assert.deepStrictEqual(pages.map(page => page.label), ["y", "z", "aa", "bb"]);
+});
+
+test("page labels: upper alpha numbering restarted by a header", () => {
+    let pages = paginate_html(`${pages_html(2)}<header page="1" page-format="upper-alpha"></header>${pages_html(2)}`);
+    assert.deepStrictEqual(pages.map(page => page.label), ["1", "2", "A", "B"]);
+});
+
+test("page labels: numbers below 1 are decimal", () => {
+    let pages = paginate_html(`<header page="0" page-format="lower-roman"></header>${pages_html(2)}`);
+    assert.deepStrictEqual(pages.map(page => page.label), ["0", "i"]);
+});
+
+test("watermark pages", () => {
+    let watermarked = (pages) => paginate_html(`<watermark pages="${pages}">DRAFT</watermark>${pages_html(6)}`)
+        .map(page => page.container.querySelectorAll(".page-watermark").length);
+    assert.deepStrictEqual(watermarked("first"), [1, 0, 0, 0, 0, 0]);
+    assert.deepStrictEqual(watermarked("last"), [0, 0, 0, 0, 0, 1]);
+    assert.deepStrictEqual(watermarked("odd"), [1, 0, 1, 0, 1, 0]);
+    assert.deepStrictEqual(watermarked("even"), [0, 1, 0, 1, 0, 1]);
+    assert.deepStrictEqual(watermarked("2"), [0, 1, 0, 0, 0, 0]);
+    assert.deepStrictEqual(watermarked("2-4"), [0, 1, 1, 1, 0, 0]);
+    assert.deepStrictEqual(watermarked("5-"), [0, 0, 0, 0, 1, 1]);
+    assert.deepStrictEqual(watermarked("first, 3, last"), [1, 0, 1, 0, 0, 1]);
+});
+
+test("watermark pages of the watermark option", () => {
+    let pages = paginate_html(pages_html(3), { watermark: { text: "DRAFT", pages: "2-" } });
+    assert.deepStrictEqual(pages.map(page => page.container.querySelectorAll(".page-watermark").length), [0, 1, 1]);
+});
+
+test("invalid watermark attributes", () => {
+    assert.throws(() => paginate_html(`<watermark pages="2..4">DRAFT</watermark>${pages_html(2)}`), /^Error: invalid watermark pages: 2\.\.4$/);
+    assert.throws(() => paginate_html(pages_html(2), { watermark: { text: "DRAFT", pages: "second" } }), /^Error: invalid watermark pages: second$/);
+    assert.throws(() => paginate_html(`<watermark layer="under">DRAFT</watermark>${pages_html(2)}`), /^Error: invalid watermark layer: under$/);
+    assert.throws(() => paginate_html(`<watermark opacity="half">DRAFT</watermark>${pages_html(2)}`), /^Error: invalid watermark opacity: half$/);
+});
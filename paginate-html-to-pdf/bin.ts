@@ -1,38 +1,117 @@
 #!/usr/bin/env node
 
 import * as program from 'commander';
-import {readFileSync, writeFileSync } from 'fs';
+import {readFileSync} from 'fs';
 import * as path from 'path';
-import renderPdf from './index';
+import {Browser} from 'puppeteer';
+import renderPdf, {parse_length, parse_paper, parse_paper_margin, parse_paper_orientation, parse_tag_names, parse_permissions, localImages, watchRender, createCliReporter, InvalidOptionError} from './index';
 
 function collect(val: string, memo: string[]) {
     memo.push(val);
     return memo;
 }
 
+function levels(val: string) {
+    return val.split(/\s*,\s*/).map(lvl => {
+        if (!/^[1-6]$/.test(lvl))
+            throw new InvalidOptionError(`invalid heading level: ${lvl}`);
+        return +lvl;
+    });
+}
+
 program
     .version(require('../package.json').version)
     .usage('[options] <html-file-path>')
-    .option('<html-file-path>', 'html body file to convert path')
-    .option('-o, --out [path]', 'output PDF path')
+    .option('<html-file-path>', 'html body file to convert path, - reads it from stdin')
+    .option('-o, --out [path]', 'output PDF path, - writes it to stdout (default when the html is read from stdin)')
     .option('-s, --style <items>', 'CSS style path (can be repeated for multiple styles)', collect, [])
+    .option('--paper <paper>', 'page paper size: A5, A4, A3, B5, B4, JIS-B5, JIS-B4, letter, legal, ledger or "<width> <height>"', parse_paper)
+    .option('--margin <margin>', 'page paper margin (ie. "2cm" or "1cm 2cm 3cm 25mm")', parse_paper_margin)
+    .option('--orientation <orientation>', 'page paper orientation: portrait or landscape', parse_paper_orientation)
+    .option('--force-cut <tag-names>', 'comma separated tag names that forcibly cut the page (ie. H1,H2,HR)', parse_tag_names)
+    .option('--max-overcut <length>', 'maximum allowed overcut (ie. 8cm)', parse_length)
+    .option('--min-height <length>', 'minimum allowed height (ie. 2cm)', parse_length)
+    .option('--watermark <text>', 'text drawn behind the content of every page (ie. DRAFT)')
+    .option('--password <password>', 'password needed to open the PDF')
+    .option('--owner-password <password>', 'password that gives all the permissions on the PDF (defaults to --password)')
+    .option('--permissions <permissions>', 'comma separated permissions of the PDF opened with --password: print, modify, copy, annotate, fill_forms, extract, assemble, print_high_quality or none (needs --owner-password)', parse_permissions)
+    .option('--outline-levels <levels>', 'comma separated heading levels that generates PDF outline entries (ie. 1,2,3)', levels)
+    .option('--outline-selector <selector>', 'CSS selector of the elements that generates PDF outline entries')
+    .option('-w, --watch', 'render again each time the html file, a style or a local image changes')
     .option('--html', 'output the paginated html instead of a pdf')
     .option('--debug', 'pause the generation just after the pagination')
-    .parse(process.argv);
+    .option('--strict', 'fail when content overflows its page and is clipped')
+    .option('--json', 'print a JSON report ({ ok, exit_code, outputs, errors }) instead of the error messages');
+
+try {
+    program.parse(process.argv);
+} catch (e) {
+    // invalid option value
+    let reporter = createCliReporter(process.argv.includes('--json'));
+    reporter.error(e);
+    reporter.exit();
+}
 
 if (program.args.length === 0)
     program.help();
 
-let html_path = path.resolve(program.args[0]);
-let pdf_path = path.resolve(program.out || `${html_path.replace(/\.\w+$/i, '')}.${program.html ? "html" : "pdf"}`);
-try {
-    renderPdf({
+let from_stdin = program.args[0] === '-';
+// html read from stdin resolves its relative resources from the current directory
+let html_path = path.resolve(from_stdin ? 'stdin.html' : program.args[0]);
+let stdin_body = from_stdin ? readFileSync(0, 'utf8') : null;
+let to_stdout = program.out === '-' || (from_stdin && !program.out);
+let pdf_path = path.resolve(to_stdout ? '-' : program.out || `${html_path.replace(/\.\w+$/i, '')}.${program.html ? "html" : "pdf"}`);
+let styles: string[] = program.style.map((s: string) => path.resolve(s));
+if (to_stdout || program.json) {
+    // keep stdout for the output or the report
+    console.info = console.error;
+}
+const reporter = createCliReporter(!!program.json, to_stdout ? process.stderr : process.stdout);
+async function render(browser?: Browser, out?: string | NodeJS.WritableStream) {
+    return renderPdf({
         base_path: html_path,
-        body: readFileSync(html_path, 'utf8'),
-        styles: program.style.map((s: string) => path.resolve(s)),
+        body: stdin_body !== null ? stdin_body : readFileSync(html_path, 'utf8'),
+        styles,
+        paginate: {
+            paper: program.paper,
+            paper_margin: program.margin,
+            paper_orientation: program.orientation,
+            force_cut_tag_names: program.forceCut,
+            max_overcut: program.maxOvercut,
+            min_height: program.minHeight,
+            watermark: program.watermark ? { text: program.watermark } : undefined,
+        },
+        toc: {
+            levels: program.outlineLevels,
+            selector: program.outlineSelector,
+        },
+        encryption: {
+            user_password: program.password,
+            owner_password: program.ownerPassword,
+            permissions: program.permissions,
+        },
         html: !!program.html,
         debug: !!program.debug,
-    }).then((buffer : Buffer) => writeFileSync(pdf_path, buffer));
-} catch(e) {
-    console.error(`unable to open html file: ${html_path}: `, e);
+        browser,
+        out,
+        strict: !!program.strict,
+        on_diagnostics: diagnostics => reporter.diagnostics(diagnostics, from_stdin ? '-' : html_path),
+    });
+}
+
+if (program.watch && (from_stdin || to_stdout)) {
+    reporter.error(new InvalidOptionError(`--watch needs an html file and an output file, not stdin or stdout`));
+    reporter.exit();
+}
+else if (program.watch) {
+    watchRender({
+        out_path: pdf_path,
+        render,
+        files: () => [html_path, ...styles, ...localImages(readFileSync(html_path, 'utf8'), html_path)],
+    });
+}
+else {
+    render(undefined, to_stdout ? process.stdout : pdf_path)
+        .then(() => reporter.output(to_stdout ? '-' : pdf_path), e => reporter.error(e, from_stdin ? '-' : html_path))
+        .then(() => reporter.exit());
 }
@@ -0,0 +1,118 @@
+import * as puppeteer from 'puppeteer';
+import {BrowserLaunchError} from './errors';
+
+/** Launch a headless browser, a launch failure is a BrowserLaunchError */
+export function launchBrowser(options?: puppeteer.LaunchOptions) : Promise<puppeteer.Browser> {
+    return puppeteer.launch({ headless: true, ...options }).catch(e => {
+        throw new BrowserLaunchError(e);
+    });
+}
+
+export interface BrowserPoolOptions {
+    /** number of browsers, defaults: 2 */
+    size?: number,
+    /** puppeteer launch options, defaults: { headless: true } */
+    launch?: puppeteer.LaunchOptions,
+}
+
+/**
+ * Pool of warm browsers shared by concurrent renders.
+ *
+ * Each browser is used by one task at a time, tasks wait for a free browser.
+ * A crashed (disconnected) or discarded browser is launched again on its next use.
+ */
+export class BrowserPool {
+    private _browsers: (Promise<puppeteer.Browser> | null)[];
+    private _free: number[];
+    private _waiting: ((slot: number) => void)[] = [];
+    private _connected = new Set<puppeteer.Browser>();
+    private _launch_error: Error | null = null;
+
+    constructor(private _options: BrowserPoolOptions = {}) {
+        let size = Math.max(1, _options.size || 2);
+        this._browsers = [];
+        for (let i = 0; i < size; i++)
+            this._browsers.push(null);
+        this._free = this._browsers.map((_, slot) => slot);
+    }
+
+    /** launch all the browsers now, instead of on first use */
+    async warmUp() {
+        await Promise.all(this._browsers.map((_, slot) => this._browser(slot)));
+    }
+
+    /** run the task with a browser of the pool */
+    async use<T>(task: (browser: puppeteer.Browser) => Promise<T>) : Promise<T> {
+        let slot = await this._acquire();
+        try {
+            return await task(await this._browser(slot));
+        }
+        finally {
+            this._release(slot);
+        }
+    }
+
+    /** close a browser (ie. stuck by a render timeout), it will be launched again on its next use */
+    async discard(browser: puppeteer.Browser) {
+        for (let slot = 0; slot < this._browsers.length; slot++) {
+            let launched = this._browsers[slot];
+            if (launched && await launched.catch(() => null) === browser)
+                this._browsers[slot] = null;
+        }
+        await browser.close();
+    }
+
+    /** connected: launched browsers still connected, launch_error: message of the last launch failure (null after a successful launch) */
+    stats() {
+        return {
+            size: this._browsers.length,
+            connected: this._connected.size,
+            idle: this._free.length,
+            waiting: this._waiting.length,
+            launch_error: this._launch_error ? this._launch_error.message : null,
+        };
+    }
+
+    async close() {
+        let browsers = this._browsers;
+        this._browsers = browsers.map(() => null);
+        await Promise.all(browsers.map(async launched => {
+            let browser = launched && await launched.catch(() => null);
+            if (browser)
+                await browser.close();
+        }));
+    }
+
+    private async _browser(slot: number) : Promise<puppeteer.Browser> {
+        let launched = this._browsers[slot];
+        let browser = launched && await launched.catch(() => null);
+        if (browser && browser.isConnected())
+            return browser;
+        launched = launchBrowser(this._options.launch).then(browser => {
+            this._launch_error = null;
+            this._connected.add(browser);
+            browser.on('disconnected', () => this._connected.delete(browser));
+            return browser;
+        }, e => {
+            this._launch_error = e;
+            throw e;
+        });
+        this._browsers[slot] = launched;
+        return launched;
+    }
+
+    private _acquire() : Promise<number> {
+        let slot = this._free.pop();
+        if (slot !== undefined)
+            return Promise.resolve(slot);
+        return new Promise(resolve => this._waiting.push(resolve));
+    }
+
+    private _release(slot: number) {
+        let next = this._waiting.shift();
+        if (next)
+            next(slot);
+        else
+            this._free.push(slot);
+    }
+}
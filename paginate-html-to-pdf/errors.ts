@@ -0,0 +1,142 @@
+import {Diagnostic} from './index';
+
+/** Base class of the known render errors, each kind of error has its own code and CLI exit code */
+export class RenderError extends Error {
+    constructor(message: string, readonly code: string, readonly exit_code: number) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/** An option or configuration value is invalid (ie. paper, margin) */
+export class InvalidOptionError extends RenderError {
+    constructor(message: string) {
+        super(message, "invalid_option", 2);
+    }
+}
+
+/** An input file (document, style, configuration) does not exist */
+export class InputNotFoundError extends RenderError {
+    constructor(readonly path: string, message = `file not found: ${path}`) {
+        super(message, "input_not_found", 3);
+    }
+}
+
+/** The browser could not be launched */
+export class BrowserLaunchError extends RenderError {
+    constructor(cause: any) {
+        super(`unable to launch the browser: ${cause && cause.message || cause}`, "browser_launch", 4);
+    }
+}
+
+/** A math expression could not be rendered by KaTeX */
+export class KatexError extends RenderError {
+    constructor(readonly latex: string, cause: any) {
+        super(`invalid math expression: ${latex}: ${cause && cause.message || cause}`, "katex", 5);
+    }
+}
+
+/** Content overflows its page and could not be cut, it is clipped in the pdf */
+export class OverflowError extends RenderError {
+    constructor(message: string) {
+        super(message, "overflow", 6);
+    }
+}
+
+/** The document has no content to print, the pdf would have no page */
+export class EmptyDocumentError extends RenderError {
+    constructor(message = `nothing to print to pdf`) {
+        super(message, "empty_document", 7);
+    }
+}
+
+/** The output (file or stream) could not be written (ie. EPIPE, ENOSPC) */
+export class OutputError extends RenderError {
+    constructor(readonly path: string, cause: any) {
+        super(`unable to write ${path}: ${cause && cause.message || cause}`, "output", 8);
+    }
+}
+
+/** exit code of the unknown errors */
+export const EXIT_FAILURE = 1;
+
+export interface ErrorReport {
+    code: string,
+    message: string,
+    exit_code: number,
+    /** input file of the failed render */
+    input?: string,
+}
+
+export function errorReport(e: any, input?: string) : ErrorReport {
+    // a file read by the CLI itself (ie. the html body) is an input not found
+    if (!(e instanceof RenderError) && e && e.code === "ENOENT")
+        e = new InputNotFoundError(e.path, e.message);
+    let report: ErrorReport = e instanceof RenderError
+        ? { code: e.code, message: e.message, exit_code: e.exit_code }
+        : { code: "error", message: e && e.message || `${e}`, exit_code: EXIT_FAILURE };
+    if (input !== undefined)
+        report.input = input;
+    return report;
+}
+
+export interface CliReporter {
+    /** an output file has been written */
+    output(path: string): void,
+    /** a render failed, other renders may go on */
+    error(e: any, input?: string): void,
+    /** pagination diagnostics of a render, clipped elements, orphaned headings and unlabeled pages are printed as warnings */
+    diagnostics(diagnostics: Diagnostic[], input?: string): void,
+    /** print the report and exit with the exit code of the first error (0 without error) */
+    exit(): never,
+}
+
+/**
+ * Collect the outputs and errors of a CLI run.
+ *
+ * With json, the report is printed as one JSON object ({ ok, exit_code, outputs, errors, diagnostics }) to report_stream,
+ * otherwise the errors and warnings are printed to stderr.
+ * Unhandled rejections are reported as errors and end the process.
+ */
+export function createCliReporter(json: boolean, report_stream: NodeJS.WritableStream = process.stdout) : CliReporter {
+    let outputs: string[] = [];
+    let errors: ErrorReport[] = [];
+    let reported_diagnostics: (Diagnostic & { input?: string })[] = [];
+
+    const reporter: CliReporter = {
+        output(path) {
+            outputs.push(path);
+        },
+        error(e, input) {
+            let report = errorReport(e, input);
+            errors.push(report);
+            if (!json)
+                console.error(input ? `${input}: ${report.message}` : report.message);
+        },
+        diagnostics(diagnostics, input) {
+            for (let diagnostic of diagnostics) {
+                reported_diagnostics.push(input !== undefined ? { ...diagnostic, input } : diagnostic);
+                if (json)
+                    continue;
+                let prefix = input ? `${input}: ` : "";
+                if (diagnostic.type === "clipped")
+                    console.warn(`${prefix}page ${diagnostic.page}: ${diagnostic.element} is clipped by ${diagnostic.overflow_mm}mm`);
+                else if (diagnostic.type === "orphaned_heading")
+                    console.warn(`${prefix}page ${diagnostic.page}: ${diagnostic.element} is the last element of the page`);
+                else if (diagnostic.type === "unlabeled_pages")
+                    console.warn(`${prefix}page ${diagnostic.page}: ${diagnostic.num_pages} pages are printed on ${diagnostic.printed_pages} pdf pages, the page labels are not written`);
+            }
+        },
+        exit() {
+            let exit_code = errors.length ? errors[0].exit_code : 0;
+            if (json)
+                report_stream.write(`${JSON.stringify({ ok: exit_code === 0, exit_code, outputs, errors, diagnostics: reported_diagnostics })}\n`);
+            return process.exit(exit_code);
+        },
+    };
+    process.on('unhandledRejection', e => {
+        reporter.error(e);
+        reporter.exit();
+    });
+    return reporter;
+}
@@ -1,8 +1,21 @@
 import * as puppeteer from 'puppeteer';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
 import {promisify} from 'util';
-import paginate, {Page} from 'paginate-dom';
+import paginate, {Page, Diagnostic as PaginateDiagnostic, PageFormat} from 'paginate-dom';
+import {RenderPaginateOptions, PdfPermission, PDF_PERMISSION_FLAGS, validateWatermark} from './options';
+import {launchBrowser} from './browser-pool';
+import {EmptyDocumentError, InputNotFoundError, InvalidOptionError, OutputError, OverflowError} from './errors';
+export * from './options';
+export * from './watch';
+export * from './browser-pool';
+export * from './errors';
+export {Watermark} from 'paginate-dom';
+
+export type Diagnostic = PaginateDiagnostic |
+    /** the printed document doesn't have one pdf page per paginated page, its pages are not labeled with their page numbers */
+    { type: "unlabeled_pages", page: number, num_pages: number, printed_pages: number };
 
 function to_web_uri(absolute_path: string) {
     if (/[a-z]+:\/\//.test(absolute_path))
@@ -10,6 +23,25 @@ function to_web_uri(absolute_path: string) {
     return `file:///${absolute_path.replace(/\\/g, '/')}`;
 }
 
+function option<T>(value: T | undefined, defaultValue: T) : T {
+    if (value === undefined)
+        return defaultValue;
+    return value;
+}
+
+function escape_html(text: string) {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Serialize a JSON value so it can be safely embedded in an inline <script> */
+function to_script_value(value: any) {
+    return JSON.stringify(value).replace(/</g, "\\u003c").replace(/\u2028/g, "\\u2028").replace(/\u2029/g, "\\u2029");
+}
+
+function outline_selector({ levels = [2, 3, 4], selector }: NonNullable<RenderPdfOptions["toc"]>) {
+    return selector || levels.map(lvl => `h${lvl}`).join(", ");
+}
+
 const MB = 1 << 20;
 class PDFWStreamForBuffer
 {
@@ -49,35 +81,452 @@ class PDFWStreamForBuffer
 
 }
 
-export default async function renderPdf(options: {
+/**
+ * Write a buffer or pipe a file to a node stream, with its backpressure, and wait for it to finish
+ * (process.stdout and process.stderr are flushed and left open), a stream error (ie. EPIPE, ENOSPC) is an OutputError.
+ */
+function write_stream(stream: NodeJS.WritableStream, data: Buffer | fs.ReadStream) : Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        let fail = (e: any) => reject(new OutputError("-", e));
+        let done = () => {
+            stream.removeListener('error', fail);
+            resolve();
+        };
+        let std = stream === process.stdout || stream === process.stderr;
+        stream.once('error', fail);
+        if (!std)
+            stream.once('finish', done);
+        if (Buffer.isBuffer(data)) {
+            if (std)
+                stream.write(data, done);
+            else
+                stream.end(data);
+            return;
+        }
+        data.once('error', fail);
+        if (std)
+            data.once('end', () => stream.write(Buffer.alloc(0), done));
+        data.pipe(stream, { end: !std });
+    });
+}
+
+/** PDF document information dictionary */
+export interface PdfInfo {
+    title?: string,
+    author?: string,
+    subject?: string,
+    keywords?: string[],
+    creator?: string,
+}
+
+/** PDF encryption, the pdf is encrypted when one of the passwords is set */
+export interface PdfEncryption {
+    /** password needed to open the pdf, defaults: "" (opens without password, with the permissions) */
+    user_password?: string,
+    /** password that gives all the permissions, defaults: the user password */
+    owner_password?: string,
+    /** permissions of the users opening the pdf with the user password, defaults: all permissions */
+    permissions?: PdfPermission[],
+}
+
+export interface RenderPdfOptions {
     body: string,
     base_path: string,
     styles?: string[],
+    /** paginate options (paper, paper_margin, paper_orientation, force_cut_tag_names, ...) */
+    paginate?: RenderPaginateOptions,
+    /** PDF outline (bookmarks) generation */
+    toc?: {
+        /** heading levels that generates outline entries, defaults: [2, 3, 4] */
+        levels?: (1 | 2 | 3 | 4 | 5 | 6)[],
+        /** CSS selector of the elements that generates outline entries, overrides levels */
+        selector?: string,
+    },
+    /** PDF document information (title, author, ...) */
+    info?: PdfInfo,
+    /** PDF encryption (passwords and permissions) */
+    encryption?: PdfEncryption,
     html?: boolean,
     debug?: boolean,
-}) : Promise<Buffer> {
+    /** render with this browser instead of launching a new one, the browser is left open */
+    browser?: puppeteer.Browser,
+    /** write the pdf (or html) to this file path or stream (ie. process.stdout) instead of returning it, the returned buffer is then empty, the stream is ended (except process.stdout and process.stderr) */
+    out?: string | NodeJS.WritableStream,
+    /** called with the pagination diagnostics (clipped elements, forced breaks, ...) once the document is paginated */
+    on_diagnostics?: (diagnostics: Diagnostic[]) => void,
+    /** fail with an OverflowError instead of printing clipped content, defaults: false */
+    strict?: boolean,
+}
+
+/**
+ * Render the body to a paginated pdf.
+ *
+ * Outline entries are generated for each element matching the toc options,
+ * the entry level is the heading level or the `data-outline-level` attribute
+ * and the entry title is the element text or the `data-outline-title` attribute.
+ *
+ * Every element with an id is a named destination, internal links (`href="#id"`)
+ * point to it whatever the pdf chunk (paper) it is printed in.
+ */
+export default async function renderPdf(options: RenderPdfOptions) : Promise<Buffer> {
+    if (options.browser)
+        return renderWith(options.browser, options);
+    const renderer = createRenderer({ launch: { headless: !options.debug } });
+    try {
+        return await renderer.render(options);
+    }
+    finally {
+        await renderer.close();
+    }
+}
+
+/** a missing stylesheet would be silently ignored by the browser, check them before launching it */
+function check_styles(options: Pick<RenderPdfOptions, "styles">) {
+    for (let style of options.styles || []) {
+        if (!/[a-z]+:\/\//.test(style) && !fs.existsSync(style))
+            throw new InputNotFoundError(style, `style not found: ${style}`);
+    }
+}
+
+/** the watermarks of the paginate options are checked before the rendering, as the ones of a configuration file */
+function check_watermarks({ paginate = {} }: Pick<RenderPdfOptions, "paginate">) {
+    if (paginate.watermark !== undefined)
+        ([] as unknown[]).concat(paginate.watermark).forEach(validateWatermark);
+}
+
+/** hummus writer options of the encryption, checked before the rendering */
+function writer_options(encryption: PdfEncryption | undefined) : object {
+    if (!encryption || (encryption.user_password === undefined && encryption.owner_password === undefined)) {
+        if (encryption && encryption.permissions)
+            throw new InvalidOptionError(`invalid encryption: permissions need an owner password`);
+        return {};
+    }
+    let { user_password = "", owner_password, permissions } = encryption;
+    if (permissions && !owner_password)
+        throw new InvalidOptionError(`invalid encryption: permissions need an owner password, the user password would give all the permissions`);
+    let flags = (permissions || Object.keys(PDF_PERMISSION_FLAGS) as PdfPermission[]).reduce((flags, permission) => {
+        if (!PDF_PERMISSION_FLAGS.hasOwnProperty(permission))
+            throw new InvalidOptionError(`invalid permission: ${permission}`);
+        return flags | PDF_PERMISSION_FLAGS[permission];
+    }, 0);
+    // hummus encrypts every object written after the writer creation
+    return { userPassword: user_password, ownerPassword: owner_password || user_password, userProtectionFlag: flags };
+}
+
+async function renderWith(target: puppeteer.Browser | puppeteer.BrowserContext, options: RenderPdfOptions) : Promise<Buffer> {
+    check_styles(options);
+    check_watermarks(options);
+    let writer = writer_options(options.encryption);
+    let rendered = await renderDocument(target, options, false);
+    if (Buffer.isBuffer(rendered))
+        return writeOutput(rendered, options.out);
+    console.info("Writing pdf");
+    return writePdfTo([{ rendered, on_diagnostics: options.on_diagnostics }], options.info, writer, options.out);
+}
+
+/** Write the buffer to out (file path or stream) and return an empty buffer, or return the buffer when out is undefined */
+export async function writeOutput(buffer: Buffer, out: RenderPdfOptions["out"]) : Promise<Buffer> {
+    if (out === undefined)
+        return buffer;
+    if (typeof out === "string") {
+        try {
+            fs.writeFileSync(out, buffer);
+        } catch (e) {
+            throw new OutputError(out, e);
+        }
+    }
+    else {
+        await write_stream(out, buffer);
+    }
+    return Buffer.alloc(0);
+}
+
+export interface RendererOptions {
+    /** externally supplied browser, the renderer never closes it */
+    browser?: puppeteer.Browser,
+    /** puppeteer launch options of the browser owned by the renderer, defaults: { headless: true } */
+    launch?: puppeteer.LaunchOptions,
+    /** maximum number of documents rendered at the same time in the browser, the others wait, defaults: no limit */
+    concurrency?: number,
+}
+
+export interface Renderer {
+    /** render the body to a paginated pdf (or html) in a fresh browser context */
+    render(options: Pick<RenderPdfOptions, Exclude<keyof RenderPdfOptions, "browser">>) : Promise<Buffer>,
+    /** close the browser owned by the renderer */
+    close() : Promise<void>,
+}
+
+/** Incognito contexts of one browser, at most concurrency tasks at the same time */
+interface BrowserContexts {
+    /** run the task in a fresh incognito context, it is retried once if the owned browser crashed */
+    use<T>(task: (context: puppeteer.BrowserContext) => Promise<T>) : Promise<T>,
+    /** close the browser owned by the contexts */
+    close() : Promise<void>,
+}
+
+function browser_contexts(options: RendererOptions) : BrowserContexts {
+    let launched: Promise<puppeteer.Browser> | null = null;
+    let closed = false;
+    let concurrency = Math.max(1, option(options.concurrency, Infinity));
+    let running = 0;
+    let waiting: (() => void)[] = [];
+
+    async function browser() : Promise<puppeteer.Browser> {
+        if (options.browser)
+            return options.browser;
+        let current = launched;
+        let browser = current && await current.catch(() => null);
+        if (browser && browser.isConnected())
+            return browser;
+        // another task already launched a new one
+        if (launched !== current && launched)
+            return launched;
+        if (browser)
+            console.warn("browser disconnected, launching a new one");
+        launched = launchBrowser(options.launch);
+        return launched;
+    }
+
+    async function run<T>(task: (context: puppeteer.BrowserContext) => Promise<T>, retry: boolean) : Promise<T> {
+        if (closed)
+            throw new Error(`renderer is closed`);
+        let current = await browser();
+        let context = await current.createIncognitoBrowserContext();
+        try {
+            return await task(context);
+        } catch (e) {
+            if (retry && !options.browser && !closed && !current.isConnected())
+                return run(task, false);
+            throw e;
+        }
+        finally {
+            if (current.isConnected())
+                await context.close().catch(() => {});
+        }
+    }
+
+    return {
+        async use(task) {
+            if (running >= concurrency)
+                await new Promise<void>(resolve => waiting.push(resolve));
+            else
+                running++;
+            try {
+                return await run(task, true);
+            }
+            finally {
+                // the slot is handed over to the next waiting task
+                let next = waiting.shift();
+                if (next)
+                    next();
+                else
+                    running--;
+            }
+        },
+        async close() {
+            closed = true;
+            let browser = launched && await launched.catch(() => null);
+            launched = null;
+            if (browser)
+                await browser.close();
+        },
+    };
+}
+
+/**
+ * Create a renderer that keeps one browser for all renders.
+ *
+ * The browser is launched on the first render, each render uses its own incognito context,
+ * at most concurrency renders at the same time.
+ * If the owned browser crashes, it is launched again and the render is retried once.
+ */
+export function createRenderer(options: RendererOptions = {}) : Renderer {
+    const contexts = browser_contexts(options);
+    return {
+        async render(render_options) {
+            check_styles(render_options);
+            check_watermarks(render_options);
+            return contexts.use(context => renderWith(context, render_options));
+        },
+        close: () => contexts.close(),
+    };
+}
+
+/** Document options of a combined pdf, title is its top-level outline entry */
+export type CombinedDocument = Pick<RenderPdfOptions, Exclude<keyof RenderPdfOptions, "html" | "debug" | "browser">> & { title: string };
+
+export interface RenderCombinedPdfOptions {
+    /** documents in order */
+    documents: CombinedDocument[],
+    /** PDF document information (title, author, ...) of the combined pdf */
+    info?: PdfInfo,
+    /** number of documents rendered at the same time in the browser, defaults: 2 */
+    concurrency?: number,
+    /** puppeteer launch options of the browser */
+    launch?: puppeteer.LaunchOptions,
+    /** write the pdf to this file path or stream instead of returning it, the returned buffer is then empty */
+    out?: RenderPdfOptions["out"],
+    /** PDF encryption (passwords and permissions) of the combined pdf */
+    encryption?: PdfEncryption,
+}
+
+/**
+ * Render documents to one pdf, each document is a top-level outline entry.
+ *
+ * Page numbers continue across documents: the documents are paginated a first time to count
+ * their pages, the first page number of a document is only known once the previous ones are counted.
+ * A document whose pages don't depend on their numbers (renumberable) is printed by this first pass
+ * and only its page labels are renumbered. The others (page number placeholders, odd/even sides,
+ * table of contents, ...) are rendered again with their first page number and the total number of pages.
+ */
+export async function renderCombinedPdf(options: RenderCombinedPdfOptions) : Promise<Buffer> {
+    options.documents.forEach(check_styles);
+    options.documents.forEach(check_watermarks);
+    let writer = writer_options(options.encryption);
+    const contexts = browser_contexts({ launch: options.launch, concurrency: option(options.concurrency, 2) });
+    try {
+        let documents = options.documents;
+        console.info(`Paginating ${documents.length} documents`);
+        let firsts = await Promise.all(documents.map(document =>
+            contexts.use(context => renderDocument(context, document, true) as Promise<RenderedDocument>)));
+        let num_pages = firsts.reduce((p, c) => p + c.num_pages, 0);
+        let first_pages: number[] = [];
+        let next_page = option(documents.length ? (documents[0].paginate || {}).first_page : undefined, 1);
+        for (let first of firsts) {
+            first_pages.push(next_page);
+            next_page += first.num_pages;
+        }
+
+        let rendered = await Promise.all(documents.map((document, i) => {
+            let shift = first_pages[i] - option((document.paginate || {}).first_page, 1);
+            if (renumberable(firsts[i], shift, document))
+                return renumber(firsts[i], firsts[i].first_numbering_pages ? shift : 0, document);
+            // the printed first pass is replaced
+            firsts[i].pdf_chunks = [];
+            return contexts.use(context => renderDocument(context, {
+                ...document,
+                paginate: { ...document.paginate, first_page: first_pages[i], num_pages },
+            }, false) as Promise<RenderedDocument>);
+        }));
+        console.info("Writing pdf");
+        return writePdfTo(rendered.map((rendered, i) => ({ title: documents[i].title, rendered, on_diagnostics: documents[i].on_diagnostics })), options.info, writer, options.out);
+    }
+    finally {
+        await contexts.close();
+    }
+}
+
+/** Document rendered by the browser, before its pdf chunks are merged */
+type RenderedDocument = {
+    pdf_chunks: Buffer[],
+    toc: Outline[],
+    named_dests: Map<string, Destination>,
+    /** numbering of each page */
+    page_labels: PageLabel[],
+    num_pages: number,
+    /** pages numbered from the first page option (before the first <header page="N"/>) */
+    first_numbering_pages: number,
+    /** these pages don't depend on the first page and num_pages options */
+    renumberable: boolean,
+    /** the pdf chunks are printed, a first pass stops after the pagination unless the pages are renumberable */
+    printed: boolean,
+    diagnostics: Diagnostic[],
+};
+
+type ClippedDiagnostic = Extract<Diagnostic, { type: "clipped" }>;
+
+/** rendered document of a merged pdf, the diagnostics of the merge are reported to on_diagnostics */
+type WrittenDocument = { title?: string, rendered: RenderedDocument, on_diagnostics?: RenderPdfOptions["on_diagnostics"] };
+
+const RX_SIDE_SELECTOR = /\[\s*side\b/;
+/** the body or a style selects the pages by side, the pages must keep their parity */
+function side_styled({ body, styles = [] }: CombinedDocument) : boolean {
+    return RX_SIDE_SELECTOR.test(body) || styles.some(style => /[a-z]+:\/\//.test(style) || RX_SIDE_SELECTOR.test(fs.readFileSync(style, 'utf8')));
+}
+
+/** the first pass of the document holds for its first page number in the combined pdf (shifted by shift) */
+function renumberable(first: RenderedDocument, shift: number, document: CombinedDocument) : boolean {
+    if (!first.printed || !first.renumberable)
+        return false;
+    // without <header page="N"/>, all the pages are renumbered, with one at the beginning, none of them
+    if (first.first_numbering_pages !== 0 && first.first_numbering_pages !== first.num_pages)
+        return false;
+    return shift === 0 || first.first_numbering_pages === 0 || shift % 2 === 0 || !side_styled(document);
+}
+
+/** shift the page numbers of a first pass and report its diagnostics */
+function renumber(first: RenderedDocument, shift: number, options: CombinedDocument) : RenderedDocument {
+    let rendered = {
+        ...first,
+        page_labels: first.page_labels.map(label => ({ ...label, page: label.page + shift })),
+        diagnostics: first.diagnostics.map(diagnostic => ({ ...diagnostic, page: diagnostic.page + shift })),
+    };
+    report_diagnostics(rendered.diagnostics, options);
+    return rendered;
+}
+
+/** report the pagination diagnostics, a strict render fails if content is clipped */
+function report_diagnostics(diagnostics: Diagnostic[], options: Pick<RenderPdfOptions, "on_diagnostics" | "strict">) {
+    if (options.on_diagnostics)
+        options.on_diagnostics(diagnostics);
+    let clipped = diagnostics.filter((diagnostic): diagnostic is ClippedDiagnostic => diagnostic.type === "clipped");
+    if (options.strict && clipped.length)
+        throw new OverflowError(`content clipped: ${clipped.map(({ page, element, overflow_mm }) => `page ${page}: ${element} by ${overflow_mm}mm`).join(", ")}`);
+}
+
+/** paginate throws "invalid <name>: <value>" errors for invalid options and attributes (ie. <header paper="...">) */
+const RX_PAGE_INVALID_OPTION = /^Evaluation failed: Error: (invalid [\w -]+: .*)/;
+
+/** Map an error thrown in the page to the matching render error */
+function page_error(e: any) {
+    let m = e && typeof e.message === "string" && e.message.match(RX_PAGE_INVALID_OPTION);
+    return m ? new InvalidOptionError(m[1]) : e;
+}
+
+/**
+ * Render the document in the browser, returns the html buffer in html mode.
+ * The first pass of a combined document stops after the pagination unless its pages are renumberable, its diagnostics are not reported.
+ */
+async function renderDocument(target: puppeteer.Browser | puppeteer.BrowserContext, options: RenderPdfOptions, first_pass: boolean) : Promise<RenderedDocument | Buffer> {
     let body = options.body;
     let html = `<!DOCTYPE html>
 <html>
     <head>
-        <base href="${to_web_uri(options.base_path)}">
+        <base href="${to_web_uri(options.base_path)}">${options.info && options.info.title ? `
+        <title>${escape_html(options.info.title)}</title>` : ""}
         <script>
             ${paginate.toString()}
             async function pdf_chunks() {
-                let pages = paginate(${options.debug ? "{ DEBUG: true, TRACE: true }" : ""});
+                let pages = paginate(${to_script_value({ ...options.paginate, ...(options.debug ? { DEBUG: true, TRACE: true } : {}) })});
+                if (await paginated(pages.length, pages.diagnostics, pages.first_numbering_pages, pages.renumberable))
+                    return;
                 ${options.debug || options.html ? "return;" : ""}
                 let toc_marks = [];
+                let dest_marks = [];
+                let page_labels = pages.map(({ page, numbering }) => ({ page, ...numbering }));
                 let chunks = [];
                 for (let [page_idx, { paper, container }] of pages.entries()) {
                     let chunk = chunks[chunks.length - 1];
                     if (!chunk || JSON.stringify(chunk.paper) !== JSON.stringify(paper))
                         chunks.push(chunk = { paper, containers: [] });
                     chunk.containers.push(container);
-                    container.style.display = "none";
-                    for (let el of container.querySelectorAll("h2, h3, h4")) {
-                        toc_marks.push({ title: el.textContent, page_idx, tagName: el.tagName });
+                    let container_rect = container.getBoundingClientRect();
+                    for (let el of container.querySelectorAll(${to_script_value(outline_selector(options.toc || {}))})) {
+                        let rect = el.getBoundingClientRect();
+                        toc_marks.push({
+                            title: el.getAttribute("data-outline-title") || el.textContent,
+                            level: +(el.getAttribute("data-outline-level") || el.tagName.substring(1)) || 1,
+                            dest: { page_idx, top: rect.top - container_rect.top, left: rect.left - container_rect.left },
+                        });
+                    }
+                    for (let el of container.querySelectorAll("[id]")) {
+                        let rect = el.getBoundingClientRect();
+                        dest_marks.push({ id: el.id, dest: { page_idx, top: rect.top - container_rect.top, left: rect.left - container_rect.left } });
                     }
                 }
+                for (let { container } of pages)
+                    container.style.display = "none";
                 for (let { paper, containers } of chunks) {
                     for (let container of containers)
                         container.style.display = "";
@@ -85,7 +534,7 @@ export default async function renderPdf(options: {
                     for (let container of containers)
                         container.style.display = "none";
                 }
-                await toc(toc_marks);
+                await toc(toc_marks, dest_marks, page_labels);
             }
         </script>
         <link rel="stylesheet" type="text/css" href="${to_web_uri(path.join(__dirname, "../node_modules/paginate-dom/base.css"))}">
@@ -96,12 +545,18 @@ export default async function renderPdf(options: {
         ${body}
     </body>
 </html>`;
-    const browser = await puppeteer.launch({ headless: !options.debug });
+    const page = await target.newPage();
     try {
         console.info("Loading html");
-        const page = await browser.newPage();
-        let pdf_chunks: Buffer[] = [];
-        let toc: Outline[] = [];
+        let rendered: RenderedDocument = { pdf_chunks: [], toc: [], named_dests: new Map(), page_labels: [], num_pages: 0, first_numbering_pages: 0, renumberable: false, printed: false, diagnostics: [] };
+        let { pdf_chunks, toc, named_dests } = rendered;
+        // returns true to stop the render (first pass that must be rendered again, strict render with clipped content)
+        await page.exposeFunction('paginated', async (num_pages: number, diagnostics: Diagnostic[], first_numbering_pages: number, renumberable: boolean) => {
+            Object.assign(rendered, { num_pages, diagnostics, first_numbering_pages, renumberable });
+            let stop = (first_pass && !renumberable) || (!!options.strict && diagnostics.some(diagnostic => diagnostic.type === "clipped"));
+            rendered.printed = !stop;
+            return stop;
+        });
         await page.exposeFunction('pdf', async ({ format, margin, orientation }: Page["paper"]) => {
             let options: Parameters<typeof page.pdf>[0] = {
                 displayHeaderFooter: false,
@@ -118,13 +573,18 @@ export default async function renderPdf(options: {
             console.info(`Creating pdf chunk ${format} ${orientation}`);
             pdf_chunks.push(await page.pdf(options));
         });
-        await page.exposeFunction('toc', async (toc_marks: { title: string, page_idx: number, tagName: string }[]) => {
+        await page.exposeFunction('toc', async (toc_marks: { title: string, level: number, dest: Destination }[], dest_marks: { id: string, dest: Destination }[], page_labels: PageLabel[]) => {
+            rendered.page_labels = page_labels;
+            // the first element wins if an id is duplicated (ie. by a cut element)
+            for (let { id, dest } of dest_marks) {
+                if (id && !named_dests.has(id))
+                    named_dests.set(id, dest);
+            }
             let stack: [number, Outline][] = [];
-            for (let { title, page_idx, tagName } of toc_marks) {
-                let lvl = +tagName.substring(1);
+            for (let { title, level: lvl, dest } of toc_marks) {
                 while (stack.length && stack[stack.length - 1][0] >= lvl)
                     stack.pop();
-                let outline = { title, page_idx, };
+                let outline = { title, dest, };
                 if (stack.length === 0)
                     toc.push(outline);
                 else {
@@ -141,7 +601,12 @@ export default async function renderPdf(options: {
         await page.setContent(html);
 
         console.info("Creating pages");
-        await page.evaluate(`pdf_chunks()`);
+        await page.evaluate(`pdf_chunks()`).catch(e => {
+            throw page_error(e);
+        });
+
+        if (!first_pass)
+            report_diagnostics(rendered.diagnostics, options);
 
         if (options.debug) // infinite await
             await new Promise(() => {});
@@ -156,87 +621,201 @@ export default async function renderPdf(options: {
             return Buffer.from(await page.content(), "utf8");
         }
 
+        return rendered;
+    }
+    finally {
+        // the page is already closed if the browser crashed
+        await page.close().catch(() => {});
+    }
+}
+
+function chunks_size(documents: { rendered: RenderedDocument }[]) {
+    return documents.reduce((p, { rendered }) => p + rendered.pdf_chunks.reduce<number>((p, c) => p + c.length, 0), 0);
+}
 
-        console.info("Writing pdf");
-        if (pdf_chunks.length === 0) {
-            throw new Error(`nothing to print to pdf`);
+/**
+ * Write the merged pdf to out (hummus writes file paths directly) or return it.
+ * Hummus writes synchronously, the pdf of a stream is written to a temporary file then piped with the backpressure of the stream.
+ * A titled document is a top-level outline entry.
+ */
+async function writePdfTo(documents: WrittenDocument[], info: PdfInfo | undefined, writer: object, out: RenderPdfOptions["out"]) : Promise<Buffer> {
+    if (out === undefined) {
+        let wbuffer = new PDFWStreamForBuffer(chunks_size(documents) * 1.25);
+        writePdf(documents, info, writer, wbuffer);
+        return wbuffer.getData();
+    }
+    if (typeof out === "string") {
+        writePdf(documents, info, writer, out);
+    }
+    else {
+        let tmp_dir = fs.mkdtempSync(path.join(os.tmpdir(), "paginate-"));
+        let tmp_path = path.join(tmp_dir, "output.pdf");
+        try {
+            writePdf(documents, info, writer, tmp_path);
+            await write_stream(out, fs.createReadStream(tmp_path));
+        }
+        finally {
+            if (fs.existsSync(tmp_path))
+                fs.unlinkSync(tmp_path);
+            fs.rmdirSync(tmp_dir);
         }
+    }
+    return Buffer.alloc(0);
+}
+
+/**
+ * Merge the pdf chunks of the documents into the hummus output (file path or output stream).
+ * The writer options encrypt the merged pages, the outline, the Dests and the page labels.
+ */
+function writePdf(documents: WrittenDocument[], info: PdfInfo | undefined, writer: object, output: string | PDFWStreamForBuffer) {
+    if (chunks_size(documents) === 0)
+        throw new EmptyDocumentError();
+
+    const hummus = require('hummus');
+    let w: any;
+    try {
+        w = hummus.createWriter(output, writer);
+    } catch (e) {
+        throw new OutputError(typeof output === "string" ? output : "-", e);
+    }
+    let ctx = w.getObjectsContext();
+    let events = w.getEvents();
+    if (info)
+        writeInfo(w, info);
+
+    let pages: PdfPage[] = [];
+    let page_labels: PageLabel[] = [];
+    let toc: Outline[] = [];
+    let named_dests = new Map<string, Destination>();
+    let combined_dests: ((d: any, written: Set<string>) => (() => void))[] = [];
+    documents.forEach(({ title, rendered, on_diagnostics }, i) => {
+        // destination names are prefixed by the document number, so ids of different documents don't collide
+        let prefix = documents.length > 1 ? `${i + 1}/` : "";
+        let page_base = pages.length;
+        let shift = (dest: Destination) => ({ ...dest, page_idx: page_base + dest.page_idx });
+        for (let [name, dest] of rendered.named_dests)
+            named_dests.set(prefix + name, shift(dest));
+        let dest_name = (name: string) => prefix + resolveDestinationName(name, rendered.named_dests);
+        // the chunks are released once copied (the ones with Dests are kept by their copying context until the Dests are written)
+        let pdf_chunk: Buffer | undefined;
+        while (pdf_chunk = rendered.pdf_chunks.shift())
+            copyPages(pages, combined_dests, dest_name, w, new hummus.PDFRStreamForBuffer(pdf_chunk));
+        let printed_pages = pages.length - page_base;
+        if (rendered.page_labels.length === printed_pages)
+            page_labels.push(...rendered.page_labels);
         else {
-            const hummus = require('hummus');
-            let wbuffer = new PDFWStreamForBuffer(pdf_chunks.reduce<number>((p, c) => p + c.length, 0) * 1.25);
-            let w = hummus.createWriter(wbuffer);
-            let ctx = w.getObjectsContext();
-            let events = w.getEvents();
-
-            let page_ids: number[] = [];
-            let combined_dests: ((d: any) => (() => void))[] = [];
-            for (let pdf_chunk of pdf_chunks)
-                copyPages(page_ids, combined_dests, w, new hummus.PDFRStreamForBuffer(pdf_chunk));
-
-            let outline = writeOutline(ctx, toc, page_ids);
-            let dests: number | null = null;
-            if (combined_dests.length) {
-                dests = ctx.startNewIndirectObject();
-                let d = ctx.startDictionary();
-                let pendings: (() => void)[] = [];
-                for (let combined_dest of combined_dests)
-                    pendings.push(combined_dest(d));
-                ctx.endDictionary(d);
-                ctx.endIndirectObject();
-                for (let pending of pendings)
-                    pending();
-            }
-            events.on('OnCatalogWrite', (e: any) => {
-                let d = e.catalogDictionaryContext;
-                if (outline !== null) {
-                    d.writeKey("Outlines");
-                    d.writeObjectReferenceValue(outline);
-                    d.writeKey("PageMode");
-                    d.writeNameValue("UseOutlines");
-                }
-                if (dests !== null) {
-                    d.writeKey("Dests");
-                    d.writeObjectReferenceValue(dests);
-                }
-            });
+            // a page overflowing the paper is printed on several pdf pages, the printed numbers don't match the pdf pages anymore
+            page_labels.push(...pages.slice(page_base).map(() => UNLABELED_PAGE));
+            if (on_diagnostics && printed_pages)
+                on_diagnostics([{ type: "unlabeled_pages", page: rendered.page_labels.length ? rendered.page_labels[0].page : 1, num_pages: rendered.page_labels.length, printed_pages }]);
+        }
+
+        let outlines = shiftOutlines(rendered.toc, shift);
+        if (title === undefined)
+            toc.push(...outlines);
+        else if (pages.length > page_base)
+            toc.push({ title, dest: { page_idx: page_base, top: 0, left: 0 }, childs: outlines });
+    });
 
-            w.end();
-            return wbuffer.getData();
+    let outline = writeOutline(ctx, toc, pages);
+    let labels = page_labels.some(label => label !== UNLABELED_PAGE) ? writePageLabels(ctx, page_labels) : null;
+    let dests: number | null = null;
+    if (combined_dests.length || named_dests.size) {
+        dests = ctx.startNewIndirectObject();
+        let d = ctx.startDictionary();
+        // measured destinations take precedence over the ones generated by chromium
+        let written = new Set<string>();
+        for (let [name, dest] of named_dests) {
+            d.writeKey(name);
+            writeDestination(ctx, dest, pages);
+            written.add(name);
         }
+        let pendings: (() => void)[] = [];
+        for (let combined_dest of combined_dests)
+            pendings.push(combined_dest(d, written));
+        ctx.endDictionary(d);
+        ctx.endIndirectObject();
+        for (let pending of pendings)
+            pending();
     }
-    finally {
-        browser.close();
-    }
+    events.on('OnCatalogWrite', (e: any) => {
+        let d = e.catalogDictionaryContext;
+        if (outline !== null) {
+            d.writeKey("Outlines");
+            d.writeObjectReferenceValue(outline);
+            d.writeKey("PageMode");
+            d.writeNameValue("UseOutlines");
+        }
+        if (dests !== null) {
+            d.writeKey("Dests");
+            d.writeObjectReferenceValue(dests);
+        }
+        if (labels !== null) {
+            d.writeKey("PageLabels");
+            d.writeObjectReferenceValue(labels);
+        }
+    });
+
+    w.end();
 }
 
-function copyPages(page_ids: number[], combined_dests: ((d: any) => (() => void))[], w: any, src: any) {
+function writeInfo(w: any, { title, author, subject, keywords, creator }: PdfInfo) {
+    let info = w.getDocumentContext().getInfoDictionary();
+    if (title)
+        info.title = title;
+    if (author)
+        info.author = author;
+    if (subject)
+        info.subject = subject;
+    if (keywords && keywords.length)
+        info.keywords = keywords.join(", ");
+    if (creator)
+        info.creator = creator;
+}
+
+/** Copied page object id and media box ([left, bottom, right, top] in PDF user space) */
+type PdfPage = { id: number, media_box: number[] };
+function copyPages(pages: PdfPage[], combined_dests: ((d: any, written: Set<string>) => (() => void))[], dest_name: (name: string) => string, w: any, src: any) {
+    let objctx = w.getObjectsContext();
     let ctx = w.createPDFCopyingContext(src);
     let parser = ctx.getSourceDocumentParser();
 
     for (let i = 0; i < parser.getPagesCount(); i++) {
         let page_dict = parser.parsePageDictionary(i);
         let src_page_id = parser.getPageObjectID(i);
-        let reffed_objects: number[] = [];
+        let annots: { id: number, annot: any }[] = [];
         if (page_dict.exists('Annots')) {
+            let src_annots = parser.queryDictionaryObject(page_dict, 'Annots');
+            for (let j = 0; j < src_annots.getLength(); j++)
+                annots.push({ id: objctx.allocateNewObjectID(), annot: parser.queryArrayObject(src_annots, j) });
             w.getEvents().once('OnPageWrite', function ({ pageDictionaryContext: d }: any) {
                 d.writeKey('Annots');
-                reffed_objects = ctx.copyDirectObjectWithDeepCopy(page_dict.queryObject('Annots'))
+                objctx.startArray();
+                for (let { id } of annots)
+                    objctx.writeIndirectObjectReference(id);
+                objctx.endArray();
+                objctx.endLine();
             })
         }
+        let media_box: number[] = parser.parsePage(i).getMediaBox();
         let page_id  = ctx.appendPDFPageFromPDF(i); // write page. this will trigger the event
-        page_ids.push(page_id);
+        pages.push({ id: page_id, media_box });
         ctx.replaceSourceObjects({ [src_page_id]: page_id });
 
-        if (reffed_objects.length > 0)
-            ctx.copyNewObjectsForDirectObject(reffed_objects)
+        for (let { id, annot } of annots)
+            writeAnnotation(objctx, ctx, parser, id, annot, dest_name);
     }
 
     let catalog = parser.queryDictionaryObject(parser.getTrailer(), 'Root');
     let dests = catalog && parser.queryDictionaryObject(catalog, 'Dests');
     if (dests) {
-        combined_dests.push((d: any) => {
+        combined_dests.push((d: any, written: Set<string>) => {
             let reffed_objects: number[] = [];
             for (let [key, value] of Object.entries(dests.toJSObject())) {
+                key = dest_name(key);
+                if (written.has(key))
+                    continue;
+                written.add(key);
                 d.writeKey(key);
                 reffed_objects.push(...ctx.copyDirectObjectWithDeepCopy(value));
             }
@@ -245,14 +824,148 @@ function copyPages(page_ids: number[], combined_dests: ((d: any) => (() => void)
     }
 }
 
-type Outline = { title: string, page_idx: number, childs?: Outline[] };
-function writeOutline(ctx: any, outlines: Outline[], page_ids: number[]) : number | null
+/** Name of the destination of an internal link annotation (/Dest or /A GoTo action) */
+function linkDestinationName(parser: any, annot: any) : string | null {
+    if (!annot || !annot.exists || !annot.exists("Subtype") || parser.queryDictionaryObject(annot, "Subtype").value !== "Link")
+        return null;
+    let dest = annot.exists("Dest") ? parser.queryDictionaryObject(annot, "Dest") : null;
+    if (!dest && annot.exists("A")) {
+        let action = parser.queryDictionaryObject(annot, "A");
+        if (action.exists("S") && parser.queryDictionaryObject(action, "S").value === "GoTo" && action.exists("D"))
+            dest = parser.queryDictionaryObject(action, "D");
+    }
+    // explicit destinations ([page /XYZ ...]) are kept as is
+    return dest && typeof dest.value === "string" ? dest.value : null;
+}
+
+/** Destination name as written by chromium (link fragment) to the element id of the named destinations */
+function resolveDestinationName(name: string, named_dests: Map<string, Destination>) : string {
+    if (named_dests.has(name))
+        return name;
+    try {
+        let decoded = decodeURIComponent(name);
+        if (named_dests.has(decoded))
+            return decoded;
+    } catch (e) {
+        // not percent encoded
+    }
+    return name;
+}
+
+/**
+ * Copy a page annotation as the indirect object id.
+ * Internal links are rewritten to the named destinations, so they work across pdf chunks:
+ * their /A or /Dest is replaced, the other keys are copied.
+ */
+function writeAnnotation(objctx: any, ctx: any, parser: any, id: number, annot: any, dest_name: (name: string) => string) {
+    let name = linkDestinationName(parser, annot);
+    objctx.startNewIndirectObject(id);
+    if (name === null) {
+        let reffed_objects = ctx.copyDirectObjectWithDeepCopy(annot);
+        objctx.endIndirectObject();
+        if (reffed_objects.length > 0)
+            ctx.copyNewObjectsForDirectObject(reffed_objects);
+        return;
+    }
+    let reffed_objects: number[] = [];
+    let d = objctx.startDictionary();
+    for (let [key, value] of Object.entries(annot.toJSObject())) {
+        if (key === "A" || key === "Dest")
+            continue;
+        d.writeKey(key);
+        reffed_objects.push(...ctx.copyDirectObjectWithDeepCopy(value));
+    }
+    d.writeKey("Dest");
+    d.writeNameValue(dest_name(name));
+    objctx.endDictionary(d);
+    objctx.endIndirectObject();
+    if (reffed_objects.length > 0)
+        ctx.copyNewObjectsForDirectObject(reffed_objects);
+}
+
+/** CSS pixels (96dpi) to PDF points (72dpi) */
+const PX_TO_PT = 72 / 96;
+
+/** Position of an element relative to the top left corner of its page container in CSS pixels */
+type Destination = { page_idx: number, top: number, left: number };
+function writeDestination(ctx: any, { page_idx, top, left }: Destination, pages: PdfPage[])
+{
+    let { id, media_box: [x1, , , y2] } = pages[page_idx];
+    ctx.startArray();
+    ctx.writeIndirectObjectReference(id);
+    ctx.writeName("XYZ");
+    ctx.writeNumber(Math.round((x1 + left * PX_TO_PT) * 100) / 100);
+    ctx.writeNumber(Math.round((y2 - top * PX_TO_PT) * 100) / 100);
+    ctx.writeNumber(0);
+    ctx.endArray();
+    ctx.endLine();
+}
+
+/** Page number and numbering of a page, as printed by {{ page }} */
+type PageLabel = { page: number, format: PageFormat, prefix: string };
+
+/** label of a pdf page without page number */
+const UNLABELED_PAGE: PageLabel = { page: 0, format: "decimal", prefix: "" };
+
+const PAGE_LABEL_STYLES: { [format in PageFormat]: string } = {
+    "decimal": "D",
+    "lower-roman": "r",
+    "upper-roman": "R",
+    "lower-alpha": "a",
+    "upper-alpha": "A",
+};
+
+/**
+ * Write the page labels number tree, so the viewer shows the printed page numbers.
+ * A label range starts at each numbering change or page number jump, pages numbered below 1 are labeled with their prefix only.
+ */
+function writePageLabels(ctx: any, page_labels: PageLabel[]) : number
+{
+    let labels = ctx.startNewIndirectObject();
+    let d = ctx.startDictionary();
+    d.writeKey("Nums");
+    ctx.startArray();
+    page_labels.forEach(({ page, format, prefix }, page_idx) => {
+        let previous = page_labels[page_idx - 1];
+        let numbered = page >= 1;
+        if (previous && previous.prefix === prefix && (numbered ? previous.format === format && previous.page + 1 === page : previous.page < 1))
+            return;
+        ctx.writeNumber(page_idx);
+        let range = ctx.startDictionary();
+        if (numbered) {
+            range.writeKey("S");
+            range.writeNameValue(PAGE_LABEL_STYLES[format]);
+        }
+        if (prefix) {
+            range.writeKey("P");
+            range.writeLiteralStringValue(prefix);
+        }
+        if (numbered) {
+            // a PDF page label range starts at 1 at least, the pages below are not numbered
+            range.writeKey("St");
+            range.writeNumberValue(page);
+        }
+        ctx.endDictionary(range);
+    });
+    ctx.endArray();
+    ctx.endLine();
+    ctx.endDictionary(d);
+    ctx.endIndirectObject();
+    return labels;
+}
+
+type Outline = { title: string, dest: Destination, childs?: Outline[] };
+function shiftOutlines(outlines: Outline[], shift: (dest: Destination) => Destination) : Outline[] {
+    return outlines.map(({ title, dest, childs }) => ({ title, dest: shift(dest), childs: childs && shiftOutlines(childs, shift) }));
+}
+
+function writeOutline(ctx: any, outlines: Outline[], pages: PdfPage[]) : number | null
 {
     if (outlines.length === 0)
         return null;
 
     let outline = ctx.allocateNewObjectID();
-    let outline_ids = writeOutlines(ctx, outlines, outline, page_ids);
+    let outline_ids = writeOutlines(ctx, outlines, outline, pages);
     ctx.startNewIndirectObject(outline);
     let d = ctx.startDictionary();
     d.writeKey("Type");
@@ -267,12 +980,12 @@ function writeOutline(ctx: any, outlines: Outline[], page_ids: number[]) : numbe
     ctx.endIndirectObject();
     return outline;
 }
-function writeOutlines(ctx: any, outlines: Outline[], parent: number, page_ids: number[]) : number[]
+function writeOutlines(ctx: any, outlines: Outline[], parent: number, pages: PdfPage[]) : number[]
 {
     let ids = outlines.map(() => ctx.allocateNewObjectID());
-    outlines.forEach(({ title, page_idx, childs }, i) => {
+    outlines.forEach(({ title, dest, childs }, i) => {
         let id = ids[i];
-        let child_ids = childs && childs.length ? writeOutlines(ctx, childs, id, page_ids) : null;
+        let child_ids = childs && childs.length ? writeOutlines(ctx, childs, id, pages) : null;
         ctx.startNewIndirectObject(id);
         let d = ctx.startDictionary();
 
@@ -283,14 +996,7 @@ function writeOutlines(ctx: any, outlines: Outline[], parent: number, page_ids:
         d.writeObjectReferenceValue(parent);
 
         d.writeKey("Dest");
-        ctx.startArray();
-        ctx.writeIndirectObjectReference(page_ids[page_idx]);
-        ctx.writeName("XYZ");
-        let c = ctx.startFreeContext();
-        c.write([ 32, 110, 117, 108, 108, 32, 110, 117, 108, 108, 32, 48, 32 ]/*" null null 0 "*/);
-        ctx.endFreeContext();
-        ctx.endArray();
-        ctx.endLine();
+        writeDestination(ctx, dest, pages);
 
         if (child_ids) {
             d.writeKey("Count");
@@ -0,0 +1,125 @@
+import {PaginateOptions, Watermark} from 'paginate-dom';
+import {InvalidOptionError} from './errors';
+
+export type Paper = NonNullable<PaginateOptions["paper"]>;
+export type PaperMargin = { top: string, right: string, bottom: string, left: string };
+export type PaperOrientation = NonNullable<PaginateOptions["paper_orientation"]>;
+
+/** paginate options that can be serialized to the page script */
+export type RenderPaginateOptions = Pick<PaginateOptions, Exclude<keyof PaginateOptions, "body" | "first_page_element_no_margin_top" | "DEBUG" | "TRACE" | "PAGINATE">>;
+
+const papers = ["A5", "A4", "A3", "B5", "B4", "JIS-B5", "JIS-B4", "letter", "legal", "ledger"];
+
+const RX_LENGTH = /^(\d+(?:\.\d+)?)(px|cm|mm|in|pc|pt)$/;
+export function parse_length(length: string) : string {
+    if (!RX_LENGTH.test(length))
+        throw new InvalidOptionError(`invalid length: ${length}, expected a number followed by px, cm, mm, in, pc or pt`);
+    return length;
+}
+
+export function parse_paper(paper: string) : Paper {
+    if (papers.indexOf(paper) !== -1)
+        return paper as Paper;
+    let sizes = paper.trim().split(/\s+/);
+    if (sizes.length === 2 && sizes.every(size => RX_LENGTH.test(size)))
+        return { width: sizes[0], height: sizes[1] };
+    throw new InvalidOptionError(`invalid paper: ${paper}, expected one of ${papers.join(", ")} or a custom size: <width> <height>`);
+}
+
+export function parse_paper_margin(paper_margin: string) : PaperMargin {
+    let [top, right, bottom, left, ...rest] = paper_margin.trim().split(/\s+/).map(parse_length);
+    if (top && right && bottom && left && !rest.length)
+        return { top, right, bottom, left };
+    if (top && !right && !bottom && !left)
+        return { top: top, right: top, bottom: top, left: top };
+    throw new InvalidOptionError(`invalid paper margin: ${paper_margin}, expected <margin> or <top> <right> <bottom> <left>`);
+}
+
+export function parse_paper_orientation(paper_orientation: string) : PaperOrientation {
+    if (paper_orientation === "portrait" || paper_orientation === "landscape")
+        return paper_orientation;
+    throw new InvalidOptionError(`invalid paper orientation: ${paper_orientation}, expected portrait or landscape`);
+}
+
+const RX_PAGES = /^(first|last|odd|even|\d+(-\d*)?)(\s*,\s*(first|last|odd|even|\d+(-\d*)?))*$/;
+/** comma separated pages of a watermark (ie. "1", "2-5", "3-", "first", "last", "odd", "even") */
+export function parse_pages(pages: string) : string {
+    if (!RX_PAGES.test(pages.trim()))
+        throw new InvalidOptionError(`invalid pages: ${pages}, expected comma separated page numbers, ranges (ie. 2-5 or 3-), first, last, odd or even`);
+    return pages.trim();
+}
+
+/**
+ * Validate a watermark of a configuration file or of the paginate options, a text is a text watermark.
+ * paginate checks the <watermark> attributes the same way.
+ */
+export function validateWatermark(raw: any) : Watermark {
+    if (typeof raw === "string")
+        return { text: raw };
+    if (!raw || typeof raw !== "object")
+        throw new InvalidOptionError(`invalid "watermark", expected a text or { text, image, layer, opacity, rotation, pages }`);
+    let watermark: Watermark = {};
+    for (let [key, value] of Object.entries(raw)) {
+        switch (key) {
+            case "text":
+            case "image":
+                if (typeof value !== "string")
+                    throw new InvalidOptionError(`invalid watermark "${key}", expected a string`);
+                watermark[key] = value;
+                break;
+            case "layer":
+                if (value !== "behind" && value !== "over")
+                    throw new InvalidOptionError(`invalid watermark "layer", expected "behind" or "over"`);
+                watermark.layer = value;
+                break;
+            case "opacity":
+                if (typeof value !== "number" || !(value >= 0 && value <= 1))
+                    throw new InvalidOptionError(`invalid watermark "opacity", expected a number from 0 to 1`);
+                watermark.opacity = value;
+                break;
+            case "rotation":
+                if (typeof value !== "number" || !isFinite(value))
+                    throw new InvalidOptionError(`invalid watermark "rotation", expected a number of degrees`);
+                watermark.rotation = value;
+                break;
+            case "pages":
+                if (typeof value !== "string")
+                    throw new InvalidOptionError(`invalid watermark "pages", expected a string`);
+                watermark.pages = parse_pages(value);
+                break;
+            default:
+                throw new InvalidOptionError(`unknown watermark key "${key}", expected one of text, image, layer, opacity, rotation, pages`);
+        }
+    }
+    return watermark;
+}
+
+/** PDF permissions of the users that open an encrypted pdf with the user password */
+export type PdfPermission = "print" | "modify" | "copy" | "annotate" | "fill_forms" | "extract" | "assemble" | "print_high_quality";
+
+/** PDF user access permission bits */
+export const PDF_PERMISSION_FLAGS: { [permission in PdfPermission]: number } = {
+    print: 1 << 2,
+    modify: 1 << 3,
+    copy: 1 << 4,
+    annotate: 1 << 5,
+    fill_forms: 1 << 8,
+    extract: 1 << 9,
+    assemble: 1 << 10,
+    print_high_quality: 1 << 11,
+};
+
+/** comma separated permissions (ie. "print,fill_forms"), "none" for no permission */
+export function parse_permissions(permissions: string) : PdfPermission[] {
+    if (permissions.trim() === "none")
+        return [];
+    return permissions.split(/\s*,\s*/).filter(permission => permission).map(permission => {
+        if (!PDF_PERMISSION_FLAGS.hasOwnProperty(permission))
+            throw new InvalidOptionError(`invalid permission: ${permission}, expected none or ${Object.keys(PDF_PERMISSION_FLAGS).join(", ")}`);
+        return permission as PdfPermission;
+    });
+}
+
+export function parse_tag_names(tag_names: string) : string[] {
+    return tag_names.split(/\s*,\s*/).filter(tag_name => tag_name).map(tag_name => tag_name.toUpperCase());
+}
@@ -0,0 +1,41 @@
+const assert = require('assert');
+const {test} = require('node:test');
+const {FakeBrowser} = require('./fake-browser');
+const {read_pdf} = require('./read-pdf');
+const renderPdf = require('../dist/index').default;
+const {OverflowError} = require('../dist/errors');
+
+/** elements are stacked in their page, 20px high or data-height px */
+function height_layout(window) {
+    let height = (element) => +element.getAttribute("data-height") || 20;
+    window.Element.prototype.getBoundingClientRect = function () {
+        let page = this.closest(".page, .__container");
+        let top = 0;
+        for (let element = page && page.firstElementChild; element && element !== this && !element.contains(this); element = element.nextElementSibling)
+            top += height(element);
+        let bottom = !page || this === page ? 1123 : top + height(this);
+        return { top, bottom, left: 0, right: 100, width: 100, height: bottom - top, x: 0, y: top };
+    };
+}
+
+const BODY = `<p>a</p><h2 id="b">b</h2><p>c</p><img data-height="2000">`;
+
+test("on_diagnostics gets the pagination diagnostics", async () => {
+    let diagnostics = null;
+    let pdf = read_pdf(await renderPdf({ body: BODY, base_path: __dirname, browser: new FakeBrowser({ layout: height_layout }), on_diagnostics: d => diagnostics = d }));
+    assert.strictEqual(pdf.pages.length, 3);
+    assert.deepStrictEqual(diagnostics, [
+        { type: "forced_break", page: 2, element: `h2#b "b"` },
+        { type: "clipped", page: 3, element: "img", overflow_mm: 272 },
+    ]);
+});
+
+test("a strict render fails when content is clipped", async () => {
+    await assert.rejects(renderPdf({ body: BODY, base_path: __dirname, browser: new FakeBrowser({ layout: height_layout }), strict: true }), (e) => {
+        assert.ok(e instanceof OverflowError);
+        assert.strictEqual(e.message, "content clipped: page 3: img by 272mm");
+        return true;
+    });
+    let pdf = read_pdf(await renderPdf({ body: `<p>a</p><h2>b</h2>`, base_path: __dirname, browser: new FakeBrowser({ layout: height_layout }), strict: true }));
+    assert.strictEqual(pdf.pages.length, 2);
+});
@@ -0,0 +1,245 @@
+const {EventEmitter} = require('events');
+const {JSDOM, VirtualConsole} = require('jsdom');
+const hummus = require('hummus');
+const puppeteer = require('puppeteer');
+
+// the render progress is not printed between the test results
+console.info = () => {};
+
+const MM_TO_PT = 72 / 25.4;
+const UNIT_TO_PT = { px: 72 / 96, mm: MM_TO_PT, cm: 10 * MM_TO_PT, in: 72, pt: 1 };
+const PAPERS = {
+    "A5": [148, 210], "A4": [210, 297], "A3": [297, 420], "B5": [176, 250], "B4": [250, 353],
+    "JIS-B5": [182, 257], "JIS-B4": [257, 364], "letter": [215.9, 279.4], "legal": [215.9, 355.6], "ledger": [279.4, 431.8],
+};
+
+function length_to_pt(length) {
+    let m = `${length}`.match(/^(\d+(?:\.\d+)?)(px|mm|cm|in|pt)$/);
+    if (!m)
+        throw new Error(`unexpected length: ${length}`);
+    return +m[1] * UNIT_TO_PT[m[2]];
+}
+
+/** hummus output stream to a buffer */
+class WStreamForBuffer {
+    constructor() {
+        this.chunks = [];
+        this.position = 0;
+    }
+    write(bytes) {
+        this.chunks.push(Buffer.from(bytes));
+        this.position += bytes.length;
+        return bytes.length;
+    }
+    getCurrentPosition() {
+        return this.position;
+    }
+}
+
+/**
+ * Print the visible .page elements of the document as chromium does: one pdf page per page element,
+ * a Link annotation (/Dest name) per internal link and the named destinations (/Dests) of the link targets of this chunk only.
+ */
+function print_pdf(document, { format, width, height, landscape }) {
+    let size = format ? PAPERS[format].map(mm => mm * MM_TO_PT) : [length_to_pt(width), length_to_pt(height)];
+    if (landscape)
+        size.reverse();
+    let pages = [...document.querySelectorAll(".page")].filter(page => page.style.display !== "none");
+    let targets = new Set([...document.querySelectorAll("a[href^='#']")].map(a => a.getAttribute("href").substring(1)));
+
+    let stream = new WStreamForBuffer();
+    let w = hummus.createWriter(stream);
+    let ctx = w.getObjectsContext();
+    let dests = [];
+    let print = (links, ids) => {
+        let annots = links.map(link => ({ id: ctx.allocateNewObjectID(), name: link.getAttribute("href").substring(1) }));
+        if (annots.length) {
+            w.getEvents().once('OnPageWrite', ({ pageDictionaryContext: d }) => {
+                d.writeKey("Annots");
+                ctx.startArray();
+                for (let { id } of annots)
+                    ctx.writeIndirectObjectReference(id);
+                ctx.endArray();
+                ctx.endLine();
+            });
+        }
+        let page_id = w.writePageAndReturnID(w.createPage(0, 0, size[0], size[1]));
+        for (let { id, name } of annots) {
+            ctx.startNewIndirectObject(id);
+            let d = ctx.startDictionary();
+            d.writeKey("Type");
+            d.writeNameValue("Annot");
+            d.writeKey("Subtype");
+            d.writeNameValue("Link");
+            d.writeKey("Rect");
+            ctx.startArray();
+            [0, 0, 10, 10].forEach(n => ctx.writeNumber(n));
+            ctx.endArray();
+            ctx.endLine();
+            d.writeKey("Dest");
+            d.writeNameValue(name);
+            ctx.endDictionary(d);
+            ctx.endIndirectObject();
+        }
+        for (let id of ids)
+            dests.push({ id, page_id });
+    };
+    for (let page of pages) {
+        let ids = [...page.querySelectorAll("[id]")].map(el => el.id).filter(id => targets.has(id));
+        print([...page.querySelectorAll("a[href^='#']")], ids);
+    }
+    if (dests.length) {
+        let dests_id = ctx.startNewIndirectObject();
+        let d = ctx.startDictionary();
+        for (let { id, page_id } of dests) {
+            d.writeKey(id);
+            ctx.startArray();
+            ctx.writeIndirectObjectReference(page_id);
+            ctx.writeName("XYZ");
+            [0, size[1], 0].forEach(n => ctx.writeNumber(n));
+            ctx.endArray();
+            ctx.endLine();
+        }
+        ctx.endDictionary(d);
+        ctx.endIndirectObject();
+        w.getEvents().once('OnCatalogWrite', ({ catalogDictionaryContext: d }) => {
+            d.writeKey("Dests");
+            d.writeObjectReferenceValue(dests_id);
+        });
+    }
+    w.end();
+    return Buffer.concat(stream.chunks);
+}
+
+/**
+ * Puppeteer page stand-in: the page scripts run in jsdom (no layout unless the browser has a layout function),
+ * the exposed functions get JSON copies of their arguments and evaluation errors are "Evaluation failed: ..." errors.
+ */
+class FakePage {
+    constructor(browser) {
+        this.browser = browser;
+        this.functions = {};
+        this.dom = null;
+    }
+
+    async exposeFunction(name, fn) {
+        this.functions[name] = fn;
+    }
+
+    async goto() {}
+
+    async emulateMedia() {}
+
+    async setContent(html) {
+        let { functions, browser } = this;
+        this.dom = new JSDOM(html, {
+            url: "http://localhost/",
+            runScripts: "dangerously",
+            pretendToBeVisual: true,
+            virtualConsole: new VirtualConsole(),
+            beforeParse(window) {
+                // jsdom doesn't implement the user timing marks of paginate
+                window.performance.mark = window.performance.measure = () => {};
+                for (let name of Object.keys(functions))
+                    window[name] = (...args) => functions[name](...JSON.parse(JSON.stringify(args)));
+                if (browser.options.layout)
+                    browser.options.layout(window);
+            },
+        });
+    }
+
+    async evaluate(expression) {
+        try {
+            return await this.dom.window.eval(expression);
+        } catch (e) {
+            throw new Error(`Evaluation failed: ${e && e.stack || e}`);
+        }
+    }
+
+    async content() {
+        return this.dom.serialize();
+    }
+
+    async pdf(options) {
+        if (this.browser.options.crash === this.browser.pages.indexOf(this) + 1)
+            await this.browser.close();
+        if (!this.browser.isConnected())
+            throw new Error("Protocol error: Target closed.");
+        return print_pdf(this.dom.window.document, options);
+    }
+
+    async close() {
+        this.browser.open_pages--;
+        if (this.dom)
+            this.dom.window.close();
+    }
+}
+
+/**
+ * Puppeteer browser stand-in.
+ * options.layout(window) fakes the layout of the pages and options.crash disconnects the browser when its nth page prints.
+ */
+class FakeBrowser extends EventEmitter {
+    constructor(options = {}) {
+        super();
+        this.options = options;
+        this.connected = true;
+        this.pages = [];
+        this.contexts = 0;
+        this.open_pages = 0;
+        this.max_open_pages = 0;
+    }
+
+    isConnected() {
+        return this.connected;
+    }
+
+    async newPage() {
+        let page = new FakePage(this);
+        this.pages.push(page);
+        this.open_pages++;
+        this.max_open_pages = Math.max(this.max_open_pages, this.open_pages);
+        return page;
+    }
+
+    async createIncognitoBrowserContext() {
+        this.contexts++;
+        return { newPage: () => this.newPage(), close: async () => {} };
+    }
+
+    async close() {
+        if (!this.connected)
+            return;
+        this.connected = false;
+        this.emit('disconnected');
+    }
+}
+
+/** puppeteer.launch returns fake browsers (of the options, only the first one crashes) until restored, the launched browsers are listed */
+function fake_launch(options = {}) {
+    let launch = puppeteer.launch;
+    let launched = [];
+    puppeteer.launch = async (launch_options) => {
+        if (options.fail)
+            throw new Error(options.fail);
+        let browser = new FakeBrowser(launched.length ? { ...options, crash: undefined } : options);
+        browser.launch_options = launch_options;
+        launched.push(browser);
+        return browser;
+    };
+    launched.restore = () => puppeteer.launch = launch;
+    return launched;
+}
+
+/** run the render with puppeteer.launch faked */
+async function with_fake_launch(options, render) {
+    let launched = fake_launch(options);
+    try {
+        return await render(launched);
+    }
+    finally {
+        launched.restore();
+    }
+}
+
+module.exports = {FakeBrowser, fake_launch, with_fake_launch};
@@ -0,0 +1,27 @@
+const assert = require('assert');
+const {test} = require('node:test');
+const {with_fake_launch} = require('./fake-browser');
+const {read_pdf} = require('./read-pdf');
+const renderPdf = require('../dist/index').default;
+
+test("internal links point at named destinations of other pdf chunks", async () => {
+    let pdf = read_pdf(await with_fake_launch({}, () => renderPdf({
+        body: `<p><a href="#details">details</a> <a href="#caf%C3%A9">café</a></p><header paper="A5"></header><h2 id="details">Details</h2><p id="café"><a href="#top">top</a></p>`,
+        base_path: __dirname,
+    })));
+    assert.strictEqual(pdf.pages.length, 2);
+    // the percent encoded fragment is the element id
+    assert.deepStrictEqual(pdf.pages.map(page => page.links), [["details", "café"], ["top"]]);
+    assert.strictEqual(pdf.dests.details.page_idx, 1);
+    assert.strictEqual(pdf.dests["café"].page_idx, 1);
+    assert.strictEqual(pdf.dests.top, undefined);
+});
+
+test("every element with an id is a named destination", async () => {
+    let pdf = read_pdf(await with_fake_launch({}, () => renderPdf({
+        body: `<p id="intro">intro</p><hr><figure id="figure-1">figure</figure>`,
+        base_path: __dirname,
+    })));
+    assert.deepStrictEqual(Object.keys(pdf.dests).sort(), ["figure-1", "intro"]);
+    assert.deepStrictEqual([pdf.dests.intro.page_idx, pdf.dests["figure-1"].page_idx], [0, 1]);
+});
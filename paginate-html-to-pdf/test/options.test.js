@@ -0,0 +1,78 @@
+const assert = require('assert');
+const {test} = require('node:test');
+const {parse_length, parse_paper, parse_paper_margin, parse_paper_orientation, parse_pages, parse_permissions, parse_tag_names} = require('../dist/options');
+const {InvalidOptionError} = require('../dist/errors');
+const {with_fake_launch} = require('./fake-browser');
+const {read_pdf} = require('./read-pdf');
+const renderPdf = require('../dist/index').default;
+
+function assert_invalid(fn, message) {
+    assert.throws(fn, (e) => e instanceof InvalidOptionError && e.exit_code === 2 && message.test(e.message));
+}
+
+/** media box of the pdf pages in mm */
+function media_boxes(pdf) {
+    return read_pdf(pdf).pages.map(page => page.media_box.map(pt => Math.round(pt * 25.4 / 72)));
+}
+
+test("parse_length", () => {
+    assert.strictEqual(parse_length("2cm"), "2cm");
+    assert.strictEqual(parse_length("0.5in"), "0.5in");
+    assert_invalid(() => parse_length("2"), /^invalid length: 2,/);
+    assert_invalid(() => parse_length("2 cm"), /^invalid length: 2 cm,/);
+});
+
+test("parse_paper", () => {
+    assert.strictEqual(parse_paper("A4"), "A4");
+    assert.deepStrictEqual(parse_paper(" 210mm  297mm "), { width: "210mm", height: "297mm" });
+    assert_invalid(() => parse_paper("A7"), /^invalid paper: A7,/);
+    assert_invalid(() => parse_paper("210mm"), /^invalid paper: 210mm,/);
+});
+
+test("parse_paper_margin", () => {
+    assert.deepStrictEqual(parse_paper_margin("2cm"), { top: "2cm", right: "2cm", bottom: "2cm", left: "2cm" });
+    assert.deepStrictEqual(parse_paper_margin("1cm 2cm 3cm 4cm"), { top: "1cm", right: "2cm", bottom: "3cm", left: "4cm" });
+    assert_invalid(() => parse_paper_margin("1cm 2cm"), /^invalid paper margin: 1cm 2cm,/);
+    assert_invalid(() => parse_paper_margin("1cm 2cm 3cm 4cm 5cm"), /^invalid paper margin/);
+});
+
+test("parse_paper_orientation", () => {
+    assert.strictEqual(parse_paper_orientation("landscape"), "landscape");
+    assert_invalid(() => parse_paper_orientation("vertical"), /^invalid paper orientation: vertical,/);
+});
+
+test("parse_pages", () => {
+    assert.strictEqual(parse_pages("1"), "1");
+    assert.strictEqual(parse_pages(" first, 2-5 ,7-,last "), "first, 2-5 ,7-,last");
+    assert.strictEqual(parse_pages("odd,even"), "odd,even");
+    assert_invalid(() => parse_pages(""), /^invalid pages: ,/);
+    assert_invalid(() => parse_pages("2..5"), /^invalid pages: 2\.\.5,/);
+    assert_invalid(() => parse_pages("1,"), /^invalid pages: 1,,/);
+    assert_invalid(() => parse_pages("second"), /^invalid pages: second,/);
+});
+
+test("parse_permissions", () => {
+    assert.deepStrictEqual(parse_permissions("print"), ["print"]);
+    assert.deepStrictEqual(parse_permissions("print, fill_forms,print_high_quality"), ["print", "fill_forms", "print_high_quality"]);
+    assert.deepStrictEqual(parse_permissions("none"), []);
+    assert_invalid(() => parse_permissions("print,edit"), /^invalid permission: edit, expected none or print, modify,/);
+    assert_invalid(() => parse_permissions("toString"), /^invalid permission: toString,/);
+});
+
+test("parse_tag_names", () => {
+    assert.deepStrictEqual(parse_tag_names("h1, h2,,section"), ["H1", "H2", "SECTION"]);
+});
+
+test("renderPdf paginate options", async () => {
+    let pdf = await with_fake_launch({}, () => renderPdf({
+        body: `<p>a</p><h3>b</h3><p>c</p><h3>d</h3>`,
+        base_path: __dirname,
+        paginate: { paper: "A5", paper_orientation: "landscape", force_cut_tag_names: ["H3"] },
+    }));
+    assert.deepStrictEqual(media_boxes(pdf), [[0, 0, 210, 148], [0, 0, 210, 148], [0, 0, 210, 148]]);
+});
+
+test("renderPdf custom paper", async () => {
+    let pdf = await with_fake_launch({}, () => renderPdf({ body: `<p>a</p>`, base_path: __dirname, paginate: { paper: { width: "100mm", height: "5cm" } } }));
+    assert.deepStrictEqual(media_boxes(pdf), [[0, 0, 100, 50]]);
+});
@@ -0,0 +1,64 @@
+const assert = require('assert');
+const {test} = require('node:test');
+const {with_fake_launch} = require('./fake-browser');
+const {read_pdf} = require('./read-pdf');
+const renderPdf = require('../dist/index').default;
+
+const A4_HEIGHT_PT = 297 * 72 / 25.4;
+
+/** every element is 20px high, under the previous elements of its page */
+function stack_layout(window) {
+    window.Element.prototype.getBoundingClientRect = function () {
+        let page = this.closest(".page, .__container") || this.ownerDocument.body;
+        let top = this === page ? 0 : 20 * ([...page.querySelectorAll("*")].indexOf(this) + 1);
+        return { top, bottom: top + 20, left: 0, right: 100, width: 100, height: 20, x: 0, y: top };
+    };
+}
+
+/** top of a pdf y position, in px */
+function top_of(y) {
+    return Math.round((A4_HEIGHT_PT - y) / 0.75);
+}
+
+test("outline entries point at the heading position", async () => {
+    let pdf = read_pdf(await with_fake_launch({ layout: stack_layout }, () => renderPdf({
+        body: `<h2>First</h2><p>a</p><p>b</p><h3>Nested</h3><p>c</p><h2>Second</h2><p>d</p><h3>Other</h3>`,
+        base_path: __dirname,
+    })));
+    let entry = ({ title, dest, childs }) => ({ title, page_idx: dest.page_idx, top: top_of(dest.y), childs: childs.map(entry) });
+    assert.deepStrictEqual(pdf.outlines.map(entry), [
+        { title: "First", page_idx: 0, top: 20, childs: [{ title: "Nested", page_idx: 0, top: 80, childs: [] }] },
+        { title: "Second", page_idx: 1, top: 20, childs: [{ title: "Other", page_idx: 1, top: 60, childs: [] }] },
+    ]);
+});
+
+test("headings are named destinations at their position", async () => {
+    let pdf = read_pdf(await with_fake_launch({ layout: stack_layout }, () => renderPdf({
+        body: `<p>a</p><h3 id="intro">Intro</h3><p><a href="#intro">intro</a></p>`,
+        base_path: __dirname,
+    })));
+    assert.strictEqual(pdf.dests.intro.page_idx, 0);
+    assert.strictEqual(top_of(pdf.dests.intro.y), 40);
+});
+
+/** outline titles, nested entries in brackets */
+function titles(outlines) {
+    return outlines.map(({ title, childs }) => childs.length ? [title, titles(childs)] : title);
+}
+
+test("outline levels", async () => {
+    let body = `<h1>Title</h1><h2>Part</h2><h3>Chapter</h3><h4>Section</h4><h5>Detail</h5>`;
+    let render = async (toc) => titles(read_pdf(await with_fake_launch({}, () => renderPdf({ body, base_path: __dirname, toc }))).outlines);
+    assert.deepStrictEqual(await render(undefined), [["Part", [["Chapter", ["Section"]]]]]);
+    assert.deepStrictEqual(await render({ levels: [1, 2] }), [["Title", ["Part"]]]);
+    assert.deepStrictEqual(await render({ levels: [1, 3, 5] }), [["Title", [["Chapter", ["Detail"]]]]]);
+});
+
+test("outline selector, level and title attributes", async () => {
+    let pdf = read_pdf(await with_fake_launch({}, () => renderPdf({
+        body: `<h2>Heading</h2><section class="chapter" data-outline-title="Chapter one"><p>text</p></section><figure class="chapter" data-outline-level="2">Figure</figure>`,
+        base_path: __dirname,
+        toc: { levels: [2], selector: ".chapter" },
+    })));
+    assert.deepStrictEqual(titles(pdf.outlines), [["Chapter one", ["Figure"]]]);
+});
@@ -0,0 +1,87 @@
+const hummus = require('hummus');
+
+/** value of a pdf object: numbers, names and strings as js values, arrays and dictionaries as js arrays and objects */
+function value(reader, object) {
+    if (!object)
+        return object;
+    if (object.getType() === hummus.ePDFObjectIndirectObjectReference)
+        return { ref: object.getObjectID() };
+    if (object.getType() === hummus.ePDFObjectArray)
+        return object.toJSArray().map(item => value(reader, item));
+    if (object.getType() === hummus.ePDFObjectDictionary) {
+        let dict = {};
+        for (let [key, item] of Object.entries(object.toJSObject()))
+            dict[key] = value(reader, item);
+        return dict;
+    }
+    return object.value;
+}
+
+/**
+ * Read the parts of a pdf written by renderPdf:
+ * pages (media box, link annotations), outlines, named destinations, page labels and info.
+ * Destinations are { page_idx, x, y } (y from the bottom of the page in points).
+ */
+function read_pdf(buffer, options) {
+    let stream = new hummus.PDFRStreamForBuffer(buffer);
+    // hummus seeks the trailer before the start of a small pdf
+    stream.setPositionFromEnd = function (position) {
+        this.rposition = Math.max(0, this.fileSize - position);
+    };
+    let reader = options ? hummus.createReader(stream, options) : hummus.createReader(stream);
+    let page_ids = [];
+    for (let i = 0; i < reader.getPagesCount(); i++)
+        page_ids.push(reader.getPageObjectID(i));
+    let dest = (array) => ({ page_idx: page_ids.indexOf(array[0].ref), x: array[2], y: array[3] });
+    let query = (dict, key) => dict && dict.exists(key) ? reader.queryDictionaryObject(dict, key) : null;
+
+    let pages = page_ids.map((_, i) => {
+        let page = reader.parsePageDictionary(i);
+        let annots = query(page, "Annots");
+        let links = [];
+        for (let j = 0; annots && j < annots.getLength(); j++) {
+            let annot = reader.queryArrayObject(annots, j);
+            let d = query(annot, "Dest");
+            links.push(d ? value(reader, d) : null);
+        }
+        return { media_box: reader.parsePage(i).getMediaBox(), links };
+    });
+
+    let catalog = query(reader.getTrailer(), "Root");
+    function outlines(item) {
+        let list = [];
+        for (; item; item = query(item, "Next")) {
+            list.push({
+                title: value(reader, query(item, "Title")),
+                dest: dest(value(reader, query(item, "Dest"))),
+                childs: outlines(query(item, "First")),
+            });
+        }
+        return list;
+    }
+    let dests = {};
+    let dests_dict = query(catalog, "Dests");
+    if (dests_dict) {
+        for (let key of Object.keys(dests_dict.toJSObject()))
+            dests[key] = dest(value(reader, query(dests_dict, key)));
+    }
+    let labels = query(catalog, "PageLabels");
+    let page_labels = null;
+    if (labels) {
+        let nums = value(reader, query(labels, "Nums"));
+        page_labels = [];
+        for (let i = 0; i < nums.length; i += 2)
+            page_labels.push({ start: nums[i], ...(nums[i + 1].ref ? value(reader, reader.parseNewObject(nums[i + 1].ref)) : nums[i + 1]) });
+    }
+    let info = query(reader.getTrailer(), "Info");
+    return {
+        encrypted: reader.isEncrypted(),
+        pages,
+        outlines: outlines(query(query(catalog, "Outlines"), "First")),
+        dests,
+        page_labels,
+        info: info ? value(reader, info) : null,
+    };
+}
+
+module.exports = {read_pdf};
@@ -0,0 +1,72 @@
+const assert = require('assert');
+const {test} = require('node:test');
+const {fake_launch} = require('./fake-browser');
+const {read_pdf} = require('./read-pdf');
+const {createRenderer} = require('../dist/index');
+
+const BODY = `<p>a</p><hr><p>b</p>`;
+
+test("createRenderer reuses one browser, each render in its own context", async () => {
+    let launched = fake_launch();
+    let renderer = createRenderer();
+    try {
+        let pdfs = await Promise.all([renderer.render({ body: BODY, base_path: __dirname }), renderer.render({ body: BODY, base_path: __dirname })]);
+        pdfs.push(await renderer.render({ body: BODY, base_path: __dirname }));
+        assert.deepStrictEqual(pdfs.map(pdf => read_pdf(pdf).pages.length), [2, 2, 2]);
+        assert.strictEqual(launched.length, 1);
+        assert.strictEqual(launched[0].contexts, 3);
+        assert.deepStrictEqual(launched[0].launch_options, { headless: true });
+        await renderer.close();
+        assert.strictEqual(launched[0].isConnected(), false);
+        await assert.rejects(renderer.render({ body: BODY, base_path: __dirname }), /^Error: renderer is closed$/);
+    }
+    finally {
+        launched.restore();
+    }
+});
+
+test("createRenderer renders at most concurrency documents at the same time", async () => {
+    let launched = fake_launch();
+    let renderer = createRenderer({ concurrency: 2 });
+    try {
+        let pdfs = await Promise.all([1, 2, 3, 4, 5].map(() => renderer.render({ body: BODY, base_path: __dirname })));
+        assert.strictEqual(pdfs.length, 5);
+        assert.strictEqual(launched[0].max_open_pages, 2);
+    }
+    finally {
+        await renderer.close();
+        launched.restore();
+    }
+});
+
+test("createRenderer launches a new browser and renders again when the browser crashed", async () => {
+    let launched = fake_launch({ crash: 1 });
+    let warn = console.warn;
+    console.warn = () => {};
+    let renderer = createRenderer();
+    try {
+        let pdf = await renderer.render({ body: BODY, base_path: __dirname });
+        assert.strictEqual(read_pdf(pdf).pages.length, 2);
+        assert.deepStrictEqual(launched.map(browser => browser.isConnected()), [false, true]);
+    }
+    finally {
+        console.warn = warn;
+        await renderer.close();
+        launched.restore();
+    }
+});
+
+test("createRenderer leaves a supplied browser open", async () => {
+    let launched = fake_launch();
+    let browser = await require('puppeteer').launch();
+    let renderer = createRenderer({ browser });
+    try {
+        await renderer.render({ body: BODY, base_path: __dirname });
+        await renderer.close();
+        assert.strictEqual(launched.length, 1);
+        assert.strictEqual(browser.isConnected(), true);
+    }
+    finally {
+        launched.restore();
+    }
+});
@@ -0,0 +1,69 @@
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const {test, after} = require('node:test');
+const {fake_launch} = require('./fake-browser');
+const {localImages, writeFileAtomic, watchRender} = require('../dist/watch');
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "html-to-pdf-watch-"));
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+test("localImages", () => {
+    let base_path = path.join(root, "docs/index.html");
+    let body = `<img src="logo.png"><img alt="" src='images/a%20b.svg?v=2'><img src=../c.jpg#x><img src="https://example.com/d.png"><img src="data:image/png;base64,AA=="><img src="file:///tmp/e.png"><img src="logo.png">`;
+    assert.deepStrictEqual(localImages(body, base_path), [
+        path.join(root, "docs/logo.png"),
+        path.join(root, "docs/images/a b.svg"),
+        path.join(root, "c.jpg"),
+        "/tmp/e.png",
+    ]);
+});
+
+test("writeFileAtomic", () => {
+    let file_path = path.join(root, "out.pdf");
+    writeFileAtomic(file_path, Buffer.from("first"));
+    writeFileAtomic(file_path, Buffer.from("second"));
+    assert.strictEqual(fs.readFileSync(file_path, "utf8"), "second");
+    assert.deepStrictEqual(fs.readdirSync(root).filter(file => file.endsWith(".tmp")), []);
+    assert.throws(() => writeFileAtomic(path.join(root, "missing/out.pdf"), Buffer.from("a")));
+    assert.deepStrictEqual(fs.readdirSync(root).filter(file => file.endsWith(".tmp")), []);
+});
+
+/** wait until the condition is true, at most 5 seconds */
+async function until(condition) {
+    for (let i = 0; i < 100 && !condition(); i++)
+        await new Promise(resolve => setTimeout(resolve, 50));
+}
+
+test("watchRender renders again with the same browser when a watched file changes", async () => {
+    let launched = fake_launch();
+    let input_path = path.join(root, "input.html");
+    let out_path = path.join(root, "watched.pdf");
+    fs.writeFileSync(input_path, "first");
+    let browsers = [];
+    try {
+        await watchRender({
+            out_path,
+            render: async (browser) => {
+                browsers.push(browser);
+                return Buffer.from(fs.readFileSync(input_path, "utf8"));
+            },
+            files: () => [input_path],
+            debounce: 0,
+        });
+        assert.strictEqual(fs.readFileSync(out_path, "utf8"), "first");
+        // the watcher reads the file stats first
+        await new Promise(resolve => setTimeout(resolve, 300));
+        fs.writeFileSync(input_path, "second render");
+        await until(() => fs.readFileSync(out_path, "utf8") !== "first");
+        assert.strictEqual(fs.readFileSync(out_path, "utf8"), "second render");
+        assert.strictEqual(browsers.length, 2);
+        assert.strictEqual(browsers[0], browsers[1]);
+        assert.strictEqual(launched.length, 1);
+    }
+    finally {
+        fs.unwatchFile(input_path);
+        launched.restore();
+    }
+});
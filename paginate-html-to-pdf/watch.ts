@@ -0,0 +1,133 @@
+import * as puppeteer from 'puppeteer';
+import {launchBrowser} from './browser-pool';
+import * as fs from 'fs';
+import * as path from 'path';
+import {fileURLToPath} from 'url';
+
+const RX_IMG_SRC = /<img\b[^>]*?\ssrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+
+/** Local image paths referenced by <img src="..."> elements of the html body */
+export function localImages(body: string, base_path: string) : string[] {
+    let images = new Set<string>();
+    let m: RegExpExecArray | null;
+    RX_IMG_SRC.lastIndex = 0;
+    while (m = RX_IMG_SRC.exec(body)) {
+        let src = (m[1] || m[2] || m[3] || "").replace(/&amp;/g, "&").replace(/[?#].*$/, "");
+        try {
+            if (/^file:/i.test(src))
+                images.add(fileURLToPath(src));
+            else if (src && !/^[a-z][a-z0-9+.-]*:/i.test(src))
+                images.add(path.resolve(path.dirname(base_path), decodeURI(src)));
+        } catch (e) {
+            // not a valid path
+        }
+    }
+    return [...images];
+}
+
+/** Write the file content to a temporary file first, so readers never see a partially written file */
+export function writeFileAtomic(file_path: string, data: Buffer) {
+    let tmp_path = `${file_path}.${process.pid}.tmp`;
+    try {
+        fs.writeFileSync(tmp_path, data);
+        fs.renameSync(tmp_path, file_path);
+    } catch (e) {
+        if (fs.existsSync(tmp_path))
+            fs.unlinkSync(tmp_path);
+        throw e;
+    }
+}
+
+export interface WatchOptions {
+    /** output file path */
+    out_path: string,
+    /** render the output with the shared browser */
+    render: (browser: puppeteer.Browser) => Promise<Buffer>,
+    /** files that triggers a new render on change, called after each render */
+    files: () => string[] | Promise<string[]>,
+    /** delay in ms to wait for other changes before rendering, defaults: 300 */
+    debounce?: number,
+}
+
+/**
+ * Render the output, then render it again each time one of the watched files changes.
+ *
+ * One browser is kept alive for all renders (and relaunched if it crashed),
+ * render errors are reported and the watch goes on.
+ */
+export async function watchRender(options: WatchOptions) : Promise<void> {
+    const debounce = options.debounce === undefined ? 300 : options.debounce;
+    let browser: puppeteer.Browser | null = null;
+    let watched = new Map<string, () => void>();
+    let timer: NodeJS.Timer | null = null;
+    let rendering = false;
+    let pending = false;
+
+    async function render() {
+        rendering = true;
+        pending = false;
+        try {
+            if (!browser || !browser.isConnected())
+                browser = await launchBrowser();
+            let buffer = await options.render(browser);
+            writeFileAtomic(options.out_path, buffer);
+            console.info(`Written ${options.out_path}`);
+        } catch (e) {
+            console.error(`render failed: ${e && e.message || e}`);
+        }
+        try {
+            watch(await options.files());
+        } catch (e) {
+            console.error(`unable to list watched files: ${e && e.message || e}`);
+        }
+        rendering = false;
+        if (pending)
+            await render();
+        else
+            console.info("Watching for changes...");
+    }
+
+    function changed(file_path: string) {
+        console.info(`Changed ${file_path}`);
+        if (timer)
+            clearTimeout(timer);
+        timer = setTimeout(() => {
+            timer = null;
+            if (rendering)
+                pending = true;
+            else
+                render();
+        }, debounce);
+    }
+
+    // fs.watchFile polls the file stats, so it survives editors that save by replacing the file
+    function watch(file_paths: string[]) {
+        let next = new Set(file_paths.map(file_path => path.resolve(file_path)));
+        for (let [file_path, unwatch] of watched) {
+            if (!next.has(file_path)) {
+                unwatch();
+                watched.delete(file_path);
+            }
+        }
+        for (let file_path of next) {
+            if (watched.has(file_path))
+                continue;
+            let listener = (curr: fs.Stats, prev: fs.Stats) => {
+                if (curr.mtimeMs !== prev.mtimeMs || curr.size !== prev.size)
+                    changed(file_path);
+            };
+            fs.watchFile(file_path, { interval: 200 }, listener);
+            watched.set(file_path, () => fs.unwatchFile(file_path, listener));
+        }
+    }
+
+    process.on('SIGINT', async () => {
+        for (let unwatch of watched.values())
+            unwatch();
+        if (browser)
+            await browser.close();
+        process.exit(0);
+    });
+
+    await render();
+}